@@ -1,22 +1,76 @@
-import React, { useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import './App.css';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, useLocation } from 'react-router-dom';
 import Category from './components/category/category';
 import Geography from './components/geography/geography';
 import SelectionWizard from './components/selectionwizard/selectionwizard';
+import { HierarchyDataContextProvider } from './core/providers/hierarchy-data-context';
+import { HierarchyDataProviders } from './models/hierarchy-data-provider';
+import { AvailabilityDataProvider } from './models/availability';
+import { SelectionMode } from './core/selection/selection-modes';
+import { SelectionHistoryContext, useSelectionHistory } from './core/selection/use-selection-history';
+import { useSelectionUrlSync } from './core/selection/use-selection-url-sync';
+import { SelectionUrlState, WizardStep, parseSelectionUrl } from './core/selection/selection-url';
+import { createLocalStoragePresetStorage } from './core/providers/local-storage-preset-storage';
+import { SelectionPresetStorage } from './models/selection-preset';
 
-const App = () => {
-  // Log React version only once on mount, using a ref to ensure it only logs once
-  const loggedRef = React.useRef(false);
-  React.useEffect(() => {
-    if (!loggedRef.current) {
-      loggedRef.current = true;
-    }
-  }, []);
+// Presets live in the browser unless the host supplies its own storage
+const defaultPresetStorage = createLocalStoragePresetStorage();
+
+interface AppProps {
+  // Hosts inject their own hierarchy sources; omitted ones use the mock data
+  dataProviders?: Partial<HierarchyDataProviders>;
+  // Which categories have data in which geographies; combinations without data are flagged.
+  // Omitted, nothing is flagged, unless both hierarchies use the mock data, which pairs with a mock matrix
+  availabilityProvider?: AvailabilityDataProvider;
+  // Select a parent automatically once all of its children are selected
+  autoSelectParents?: boolean;
+  // Selection policy the extraction backend expects, applied to both wizard steps
+  selectionMode?: SelectionMode;
+  // Where named selections are saved; defaults to localStorage
+  presetStorage?: SelectionPresetStorage;
+}
 
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [selectedGeographies, setSelectedGeographies] = useState<string[]>([]);
-  const [currentStep, setCurrentStep] = useState<'category' | 'geography'>('category');
+type AppContentProps = Required<Pick<AppProps, 'autoSelectParents' | 'selectionMode' | 'presetStorage'>>;
+
+// Wizard state and layout; lives under the router so the URL can mirror it
+const AppContent = ({ autoSelectParents, selectionMode, presetStorage }: AppContentProps) => {
+  const location = useLocation();
+  // A shared link or reload restores the step and selections from the URL
+  const [initialUrlState] = useState(() => parseSelectionUrl(location.pathname, location.search));
+
+  // Both hierarchies share one undo/redo stack
+  const {
+    selectedCategories,
+    setSelectedCategories,
+    selectedGeographies,
+    setSelectedGeographies,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    batch,
+    withoutHistory,
+  } = useSelectionHistory({ initial: initialUrlState });
+  const historyBatching = useMemo(() => ({ batch, withoutHistory }), [batch, withoutHistory]);
+  const [currentStep, setCurrentStep] = useState<WizardStep>(initialUrlState.step);
+
+  // Back/forward restores what the URL describes; that is navigation, not an edit, so the
+  // undo and redo stacks are left as they are
+  const applyUrlState = useCallback(
+    ({ step, categories, geographies }: SelectionUrlState) => {
+      setCurrentStep(step);
+      withoutHistory(() => {
+        setSelectedCategories(categories);
+        setSelectedGeographies(geographies);
+      });
+    },
+    [setSelectedCategories, setSelectedGeographies, withoutHistory]
+  );
+  useSelectionUrlSync(
+    { step: currentStep, categories: selectedCategories, geographies: selectedGeographies },
+    applyUrlState
+  );
 
   const handleNextStep = () => {
     if (currentStep === 'category') {
@@ -31,7 +85,7 @@ const App = () => {
   };
 
   return (
-    <BrowserRouter>
+    <SelectionHistoryContext.Provider value={historyBatching}>
       <div className="app-layout">
         <div className="tree-container-content">
           {/* Step Content */}
@@ -41,13 +95,19 @@ const App = () => {
               showSelectAllButton={true}
               selectedCategories={selectedCategories}
               setSelectedCategories={setSelectedCategories}
+              selectedGeographies={selectedGeographies}
+              autoSelectParents={autoSelectParents}
+              selectionMode={selectionMode}
             />
           )}
-          
+      
           {currentStep === 'geography' && (
             <Geography
               selectedGeographies={selectedGeographies}
               setSelectedGeographies={setSelectedGeographies}
+              selectedCategories={selectedCategories}
+              autoSelectParents={autoSelectParents}
+              selectionMode={selectionMode}
             />
           )}
         </div>
@@ -61,9 +121,43 @@ const App = () => {
             currentStep={currentStep}
             onNextStep={handleNextStep}
             onPreviousStep={handlePreviousStep}
+            selectionMode={selectionMode}
+            onUndo={undo}
+            onRedo={redo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            presetStorage={presetStorage}
           />
         </div>
       </div>
+    </SelectionHistoryContext.Provider>
+  );
+};
+
+const App = ({
+  dataProviders,
+  availabilityProvider,
+  autoSelectParents = false,
+  selectionMode = 'independent',
+  presetStorage = defaultPresetStorage,
+}: AppProps) => {
+  // Log React version only once on mount, using a ref to ensure it only logs once
+  const loggedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (!loggedRef.current) {
+      loggedRef.current = true;
+    }
+  }, []);
+
+  return (
+    <BrowserRouter>
+      <HierarchyDataContextProvider providers={dataProviders} availabilityProvider={availabilityProvider}>
+        <AppContent
+          autoSelectParents={autoSelectParents}
+          selectionMode={selectionMode}
+          presetStorage={presetStorage}
+        />
+      </HierarchyDataContextProvider>
     </BrowserRouter>
   );
 };
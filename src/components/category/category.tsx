@@ -1,27 +1,55 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { CategoryNode } from '../../models/category-tree';
-import { MockCategoryHierarchyData } from '../../core/mock/data/mock-category-data';
+import { useAvailabilityCheck, useHierarchyData } from '../../core/providers/hierarchy-data-context';
+import { findNodeByKey, getNodeKey } from '../../core/utils/tree-node-utils';
+import { setNodesChecked } from '../../core/selection/selection-actions';
 import TreeList from '../tree-list/tree-list';
-import SearchBar from '../genericsearch/searchbar';
+import { SelectionMode } from '../../core/selection/selection-modes';
+import SearchBar, { SearchFieldDefinition, SearchMode, SearchResults, SuggestionAction } from '../genericsearch/searchbar';
+import HierarchyStatus from '../hierarchy-status/hierarchy-status';
+import DiagnosticsBanner from '../diagnostics-banner/diagnostics-banner';
+import PasteList from '../paste-list/paste-list';
+import GroupPicker from '../group-picker/group-picker';
 
 interface CategoryProps {
   heading?: string;
   showSelectAllButton?: boolean;
   selectedCategories?: string[];
   setSelectedCategories?: React.Dispatch<React.SetStateAction<string[]>>;
+  // Geographies chosen on the next step; categories without data for them are flagged
+  selectedGeographies?: string[];
+  autoSelectParents?: boolean;
+  selectionMode?: SelectionMode;
 }
 
+// Qualifiers for the search box, e.g. `id:101`, `group:drinks`, `def:carbonated`
+const CATEGORY_SEARCH_FIELDS: Record<string, SearchFieldDefinition<CategoryNode>> = {
+  id: { field: (node) => String(node.productID ?? node.categoryID ?? ''), exact: true },
+  group: { field: (node) => [node.level1Group, node.level2Group].filter(Boolean).join(' ') },
+  def: { field: 'definition' },
+};
+
+// Stable default so the availability memo does not re-run on every render
+const EMPTY_SELECTION: string[] = [];
+
 const Category= (props: CategoryProps) => {
-  const { heading = 'Select Categories', showSelectAllButton = true, selectedCategories, setSelectedCategories } = props;
-  const [dataSource, setDataSource] = useState<CategoryNode[]>([]);
+  const { heading = 'Select Categories', showSelectAllButton = true, selectedCategories, setSelectedCategories, selectedGeographies = EMPTY_SELECTION, autoSelectParents, selectionMode } = props;
+  const { roots: dataSource, status, error, reload, childLoads, loadChildren, diagnostics, synonyms } = useHierarchyData('category');
+  const availabilityCheck = useAvailabilityCheck();
+  const unavailableKeys = useMemo(
+    () => availabilityCheck?.findUnavailableKeys('category', selectedGeographies),
+    [availabilityCheck, selectedGeographies]
+  );
   const [filteredData, setFilteredData] = useState<CategoryNode[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>('filter');
+  const [activeMatchKey, setActiveMatchKey] = useState<string | null>(null);
 
   useEffect(() => {
-    setDataSource(MockCategoryHierarchyData);
-    setFilteredData(MockCategoryHierarchyData);
-  }, []);
+    setFilteredData(dataSource);
+  }, [dataSource]);
 
   const handleFilteredDataChange = (filtered: CategoryNode[]) => {
     setFilteredData(filtered);
@@ -29,6 +57,18 @@ const Category= (props: CategoryProps) => {
 
   const [shouldResetTree, setShouldResetTree] = useState(false);
 
+  // A suggestion picked from the search dropdown: tick it like its checkbox, then show it
+  const handleSuggestionPick = (key: string, action: SuggestionAction) => {
+    const node = findNodeByKey(dataSource, key);
+    if (!node) return;
+    if (action === 'select') {
+      setSelectedCategories?.((prevItems) =>
+        setNodesChecked(prevItems, dataSource, [node], true, { mode: selectionMode ?? 'independent', autoSelectParents })
+      );
+    }
+    setActiveMatchKey(key);
+  };
+
   const handleSearchStateChange = (searching: boolean, query: string, isCleared?: boolean) => {
     setIsSearching(searching);
     setSearchQuery(query);
@@ -46,22 +86,66 @@ const Category= (props: CategoryProps) => {
         onSearchStateChange={handleSearchStateChange}
         placeholder="Search categories..."
         searchField="productName"
+        searchFields={CATEGORY_SEARCH_FIELDS}
         childrenField="categories"
         minSearchLength={3}
         className="category-search-container"
+        fuzzy
+        synonyms={synonyms}
+        alternativeNamesField="alternativeNames"
+        getItemKey={getNodeKey}
+        onSearchResultsChange={setSearchResults}
+        mode={searchMode}
+        onModeChange={setSearchMode}
+        onActiveMatchChange={setActiveMatchKey}
+        onSuggestionPick={handleSuggestionPick}
+        recentSearchesKey="recentSearches.category"
       />
-      <TreeList
-        data={filteredData}
-        heading={heading}
-        showSelectAllButton={showSelectAllButton}
-        shouldReset={shouldResetTree}
-        onResetComplete={() => setShouldResetTree(false)}
-        selectedCategories={selectedCategories}
-        setSelectedCategories={setSelectedCategories}
-        isSearching={isSearching}
-        searchQuery={searchQuery}
-        nodeType="category"
-      />
+      <HierarchyStatus status={status} error={error} label="categories" onRetry={reload} />
+      <DiagnosticsBanner diagnostics={diagnostics} label="Category" />
+      {status === 'ready' && (
+        <PasteList
+          hierarchy={dataSource}
+          itemLabel="categories"
+          setSelectedItems={setSelectedCategories}
+          selectionMode={selectionMode}
+          autoSelectParents={autoSelectParents}
+        />
+      )}
+      {status === 'ready' && (
+        <GroupPicker
+          hierarchy={dataSource}
+          itemLabel="categories"
+          selectedItems={selectedCategories}
+          setSelectedItems={setSelectedCategories}
+          selectionMode={selectionMode}
+          autoSelectParents={autoSelectParents}
+        />
+      )}
+      {status === 'ready' && (
+        <TreeList
+          data={filteredData}
+          sourceData={dataSource}
+          heading={heading}
+          showSelectAllButton={showSelectAllButton}
+          shouldReset={shouldResetTree}
+          onResetComplete={() => setShouldResetTree(false)}
+          onLoadChildren={loadChildren}
+          childLoadState={childLoads}
+          selectedCategories={selectedCategories}
+          setSelectedCategories={setSelectedCategories}
+          isSearching={isSearching}
+          searchQuery={searchQuery}
+          searchResults={searchResults}
+          searchMode={searchMode}
+          activeMatchKey={activeMatchKey}
+          nodeType="category"
+          unavailableKeys={unavailableKeys}
+          unavailableReason="No data for the selected geographies"
+          autoSelectParents={autoSelectParents}
+          selectionMode={selectionMode}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { HierarchyDiagnostic } from '../../models/hierarchy-diagnostic';
+import './diagnostics-banner.css';
+
+interface DiagnosticsBannerProps {
+  diagnostics: HierarchyDiagnostic[];
+  label: string;
+  // Warnings are developer feedback; by default they are hidden from production users
+  showWarnings?: boolean;
+}
+
+const DiagnosticsBanner = ({
+  diagnostics,
+  label,
+  showWarnings = process.env.NODE_ENV !== 'production'
+}: DiagnosticsBannerProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const visible = diagnostics.filter((diagnostic) => diagnostic.severity === 'error' || showWarnings);
+  if (visible.length === 0) return null;
+
+  const errorCount = visible.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warningCount = visible.length - errorCount;
+  const summary = [
+    errorCount > 0 ? `${errorCount} error${errorCount !== 1 ? 's' : ''}` : null,
+    warningCount > 0 ? `${warningCount} warning${warningCount !== 1 ? 's' : ''}` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className={`diagnostics-banner ${errorCount > 0 ? 'has-errors' : 'has-warnings'}`} role="status">
+      <div className="diagnostics-banner-header">
+        <span className="diagnostics-banner-summary">
+          {label} data check: {summary}
+        </span>
+        <button
+          type="button"
+          className="diagnostics-banner-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+      {isExpanded && (
+        <ul className="diagnostics-banner-list">
+          {visible.map((diagnostic, index) => (
+            <li key={index} className={`diagnostics-banner-item ${diagnostic.severity}`}>
+              <span className="diagnostics-banner-message">{diagnostic.message}</span>
+              {diagnostic.path.length > 0 && (
+                <span className="diagnostics-banner-path">{diagnostic.path.join(' › ')}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsBanner;
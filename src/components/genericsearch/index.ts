@@ -1,4 +1,15 @@
 // Generic Search Components
 export { default as SearchBar } from './searchbar';
-export type { SearchBarProps, SearchableItem } from './searchbar';
+export type {
+  SearchBarProps,
+  SearchableItem,
+  SearchFieldDefinition,
+  SearchMatch,
+  SearchMatchMap,
+  SearchMode,
+  SearchResults,
+  SearchSuggestion,
+  SuggestionAction,
+} from './searchbar';
+export type { MatchRange } from '../../core/search/text-match';
 export { UserSearchExample, ProductSearchExample, MenuSearchExample } from './usage-examples';
@@ -1,12 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useId, useRef } from 'react';
+import { applySynonyms, parseSearchQuery } from '../../core/search/search-query';
+import { PATH_FIELD, SearchIndexResult, flattenForSearch, getPositionKey } from '../../core/search/search-index';
+import { MatchRange } from '../../core/search/text-match';
+import { SearchIndexClient, createSearchIndexClient } from '../../core/search/search-index-client';
+import { addRecentSearch, loadRecentSearches } from '../../core/search/recent-searches';
+import { SynonymDictionary } from '../../models/hierarchy-data-provider';
 import './searchbar.css';
 
 export interface SearchableItem {
   [key: string]: any;
 }
 
+// A field users can search with a qualifier, e.g. `id:101`
+export interface SearchFieldDefinition<T extends SearchableItem> {
+  field: keyof T | ((item: T) => string);
+  // Compare the whole value instead of searching within it (ids, codes)
+  exact?: boolean;
+}
+
+// What a search found for one item
+export interface SearchMatch {
+  // The item itself satisfies the query
+  isDirectMatch: boolean;
+  // Some item below it does
+  hasMatchingDescendants: boolean;
+  // Relevance of the item or its best descendant, 0..1
+  score: number;
+  // Matched characters of the item's searchField text, for highlighting
+  ranges: MatchRange[];
+  // Set when the item matched through an alias rather than its name
+  alias: string | null;
+}
+
+// Every item that matched or leads to a match, by item key (see getItemKey)
+export type SearchMatchMap = Map<string, SearchMatch>;
+
+export interface SearchResults {
+  query: string;
+  matches: SearchMatchMap;
+  // Fuzzy results rank siblings by score; otherwise they keep their tree order
+  ranked: boolean;
+}
+
+// filter hides items without matches; find keeps every item and steps through the matches
+export type SearchMode = 'filter' | 'find';
+
+// A top match offered in the dropdown while typing
+export interface SearchSuggestion {
+  key: string;
+  name: string;
+  // e.g. "Western Europe › Spain"
+  path: string;
+}
+
+// Enter picks a suggestion to select it; Shift+Enter only reveals it
+export type SuggestionAction = 'select' | 'reveal';
+
 export interface SearchBarProps<T extends SearchableItem> {
   data: T[];
+  // In filter mode, the top-level items with matches. They keep all their children: nested
+  // items are filtered through the matches (see onSearchResultsChange), not copied
   onFilteredDataChange: (filteredData: T[]) => void;
   onSearchStateChange?: (isSearching: boolean, query: string, isCleared?: boolean) => void;
   placeholder?: string;
@@ -15,6 +68,37 @@ export interface SearchBarProps<T extends SearchableItem> {
   minSearchLength?: number;
   className?: string;
   debounceMs?: number;
+  // Typo-tolerant matching; results are then ranked by relevance within each parent
+  fuzzy?: boolean;
+  // Qualifiers for the query syntax, e.g. { id: { field: 'productID', exact: true } };
+  // unqualified terms and `name:` search searchField
+  searchFields?: Record<string, SearchFieldDefinition<T>>;
+  // Locale for case folding (e.g. 'tr'); accents are always ignored
+  locale?: string;
+  // Aliases users may type instead of a name, e.g. { holland: ['Netherlands'] }
+  synonyms?: SynonymDictionary;
+  // Names an item is also known by; they match like its name
+  alternativeNamesField?: keyof T | ((item: T) => string[]);
+  // Identifies items in search results; defaults to their position in the tree
+  getItemKey?: (item: T) => string;
+  // Called with every completed search, null when the search is cleared
+  onSearchResultsChange?: (results: SearchResults | null) => void;
+  mode?: SearchMode;
+  // Lets the user switch modes when given
+  onModeChange?: (mode: SearchMode) => void;
+  // Find mode: key of the match to reveal, null when there is none
+  onActiveMatchChange?: (key: string | null) => void;
+  // Shows the top matches in a dropdown; called with the key of the one picked
+  onSuggestionPick?: (key: string, action: SuggestionAction) => void;
+  maxSuggestions?: number;
+  // localStorage key for this box's recent searches, offered while the box is empty
+  recentSearchesKey?: string;
+}
+
+interface ScoredItem<T> {
+  item: T;
+  // Best score of the item or any of its descendants
+  score: number;
 }
 
 function SearchBarComponent<T extends SearchableItem>({
@@ -26,10 +110,53 @@ function SearchBarComponent<T extends SearchableItem>({
   childrenField,
   minSearchLength = 3,
   className = "generic-search-container",
-  debounceMs = 300
+  debounceMs = 300,
+  fuzzy = false,
+  searchFields,
+  locale,
+  synonyms,
+  alternativeNamesField,
+  getItemKey,
+  onSearchResultsChange,
+  mode = 'filter',
+  onModeChange,
+  onActiveMatchChange,
+  onSuggestionPick,
+  maxSuggestions = 8,
+  recentSearchesKey
 }: SearchBarProps<T>) {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [queryErrors, setQueryErrors] = useState<string[]>([]);
+  // Find mode: direct matches in tree order and the one being shown
+  const [matchKeys, setMatchKeys] = useState<string[] | null>(null);
+  const [activeMatch, setActiveMatch] = useState(0);
+  // Dropdown of suggestions, or of recent searches while the query is short
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>(() =>
+    recentSearchesKey ? loadRecentSearches(recentSearchesKey) : []
+  );
+  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [highlightedOption, setHighlightedOption] = useState(-1);
+  const dropdownId = useId();
+  const clientRef = useRef<SearchIndexClient | null>(null);
+  const latestRef = useRef<{ indexItems: () => void; startSearch: (rawQuery: string) => (() => void) | undefined } | null>(
+    null
+  );
+
+  useEffect(() => {
+    const client = createSearchIndexClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  // Index each data set once; searches then run against the index instead of the tree
+  useEffect(() => {
+    latestRef.current?.indexItems();
+  }, [data, locale]);
 
   // Debounce the search query
   useEffect(() => {
@@ -41,21 +168,10 @@ function SearchBarComponent<T extends SearchableItem>({
   }, [searchQuery, debounceMs]);
 
   // Handle search filtering
-  useEffect(() => {
-    const query = debouncedQuery.trim().toLowerCase();
-    const isSearching = query.length >= minSearchLength;
-
-    if (query.length < minSearchLength) {
-      if (isSearching) {
-        onFilteredDataChange(data);
-        onSearchStateChange?.(false, '');
-      }
-    } else {
-      const filteredResults = filterItems(data, query);
-      onFilteredDataChange(filteredResults);
-      onSearchStateChange?.(true, query);
-    }
-  }, [debouncedQuery, minSearchLength]); // Remove data from dependencies to prevent infinite loop
+  useEffect(
+    () => latestRef.current?.startSearch(debouncedQuery),
+    [debouncedQuery, minSearchLength, fuzzy, locale, synonyms, mode] // Remove data from dependencies to prevent infinite loop
+  );
 
   // Get the searchable text from an item
   const getSearchableText = (item: T): string => {
@@ -65,50 +181,216 @@ function SearchBarComponent<T extends SearchableItem>({
     return String(item[searchField] || '');
   };
 
-  // Recursive filter function for hierarchical data
-  const filterItems = (items: T[], query: string): T[] => {
-    return items
-      .map((item) => {
-        const itemText = getSearchableText(item).toLowerCase();
-        const isDirectMatch = itemText.includes(query);
-        
-        let filteredChildren: T[] = [];
-        if (childrenField && Array.isArray(item[childrenField])) {
-          filteredChildren = filterItems(item[childrenField] as T[], query);
-        }
-        
-        // Include item if it matches directly or has matching children
-        if (isDirectMatch || filteredChildren.length > 0) {
-          const resultItem = childrenField && Array.isArray(item[childrenField])
-            ? { 
-                ...item, 
-                [childrenField]: filteredChildren,
-                // Add metadata for highlighting and expansion
-                _isDirectMatch: isDirectMatch,
-                _hasMatchingChildren: filteredChildren.length > 0,
-                _searchQuery: query
-              }
-            : { 
-                ...item,
-                _isDirectMatch: isDirectMatch,
-                _searchQuery: query
-              };
-          
-          return resultItem;
-        }
-        
-        return null;
+  // Text of a qualified field; null and unknown fields fall back to searchField
+  const getFieldText = (item: T, field: string | null): string => {
+    const definition = field ? searchFields?.[field] : undefined;
+    if (!definition) return getSearchableText(item);
+    if (typeof definition.field === 'function') {
+      return definition.field(item);
+    }
+    return String(item[definition.field] ?? '');
+  };
+
+  const getAlternativeNames = (item: T): string[] => {
+    if (!alternativeNamesField) return [];
+    const names = typeof alternativeNamesField === 'function' ? alternativeNamesField(item) : item[alternativeNamesField];
+    return Array.isArray(names) ? names : [];
+  };
+
+  const getChildren = (item: T): T[] | undefined =>
+    childrenField && Array.isArray(item[childrenField]) ? (item[childrenField] as T[]) : undefined;
+
+  const getFields = (item: T): Record<string, string> =>
+    Object.keys(searchFields ?? {}).reduce<Record<string, string>>((fields, field) => {
+      fields[field] = getFieldText(item, field);
+      return fields;
+    }, {});
+
+  // Hierarchies can also be searched by path, e.g. `path:europe`
+  const getSearchFieldNames = () => [...Object.keys(searchFields ?? {}), ...(childrenField ? [PATH_FIELD] : [])];
+
+  const exactFields = Object.keys(searchFields ?? {}).filter((field) => searchFields?.[field].exact);
+
+  // Top-level items that matched or lead to a match, as they are; nothing is copied
+  const filterItems = (items: T[], result: SearchIndexResult): T[] => {
+    const scored = items
+      .map((item, i): ScoredItem<T> | null => {
+        const key = getItemKey ? getItemKey(item) : getPositionKey(null, i);
+        const match = result.matches[key];
+        const descendantScore = result.ancestors[key];
+        if (match === undefined && descendantScore === undefined) return null;
+        return { item, score: Math.max(match?.score ?? 0, descendantScore ?? 0) };
       })
-      .filter(Boolean) as T[];
+      .filter((entry): entry is ScoredItem<T> => entry !== null);
+
+    // Array.prototype.sort is stable, so equally relevant siblings keep their order
+    return (fuzzy ? scored.sort((a, b) => b.score - a.score) : scored).map((entry) => entry.item);
+  };
+
+  const toMatchMap = (result: SearchIndexResult): SearchMatchMap => {
+    const matches: SearchMatchMap = new Map();
+    result.matchKeys.forEach((key) => {
+      const { score, ranges, alias } = result.matches[key];
+      matches.set(key, { isDirectMatch: true, hasMatchingDescendants: false, score, ranges, alias });
+    });
+    Object.keys(result.ancestors).forEach((key) => {
+      const match = matches.get(key);
+      const score = Math.max(match?.score ?? 0, result.ancestors[key]);
+      matches.set(key, match
+        ? { ...match, hasMatchingDescendants: true, score }
+        : { isDirectMatch: false, hasMatchingDescendants: true, score, ranges: [], alias: null });
+    });
+    return matches;
+  };
+
+  // Best matches first; equally good ones stay in tree order
+  const toSuggestions = (result: SearchIndexResult): SearchSuggestion[] =>
+    result.matchKeys
+      .map((key) => ({ key, ...result.matches[key] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxSuggestions)
+      .map(({ key, name, path }) => ({ key, name, path }));
+
+  const showMatch = (keys: string[] | null, index: number) => {
+    setMatchKeys(keys);
+    setActiveMatch(index);
+    onActiveMatchChange?.(keys?.[index] ?? null);
+  };
+
+  // Steps to the next (1) or previous (-1) match, wrapping around
+  const stepMatch = (step: number) => {
+    if (!matchKeys || matchKeys.length === 0) return;
+    showMatch(matchKeys, (activeMatch + step + matchKeys.length) % matchKeys.length);
+  };
+
+  const indexItems = () => {
+    clientRef.current?.index(
+      flattenForSearch(data, {
+        getKey: getItemKey,
+        getName: getSearchableText,
+        getChildren: getChildren,
+        getFields: getFields,
+        getAlternativeNames: getAlternativeNames,
+      }),
+      locale
+    );
   };
 
+  // Returns the cleanup for the search effect
+  const startSearch = (rawQuery: string): (() => void) | undefined => {
+    const query = rawQuery.trim().toLowerCase();
+
+    // Too short to search: back to the unfiltered data, with no matches left to act on
+    if (query.length < minSearchLength) {
+      setQueryErrors([]);
+      showMatch(null, 0);
+      onFilteredDataChange(data);
+      onSearchResultsChange?.(null);
+      onSearchStateChange?.(false, '');
+      return;
+    }
+
+    // An invalid query keeps the current results until it is fixed
+    const parsed = parseSearchQuery(query, getSearchFieldNames());
+    setQueryErrors(parsed.errors);
+    if (parsed.errors.length > 0) return;
+    const expanded = synonyms ? applySynonyms(parsed, synonyms, locale) : parsed;
+
+    const client = clientRef.current;
+    client?.search(expanded, { fuzzy, locale, exactFields }).then((result) => {
+      // Superseded by a newer query, or the search was cleared meanwhile
+      if (!result) return;
+      onFilteredDataChange(mode === 'find' ? data : filterItems(data, result));
+      onSearchResultsChange?.({ query, matches: toMatchMap(result), ranked: fuzzy });
+      onSearchStateChange?.(true, query);
+      setSuggestions(toSuggestions(result));
+      setHighlightedOption(-1);
+      showMatch(mode === 'find' ? result.matchKeys : null, 0);
+    });
+    return () => client?.cancel();
+  };
+
+  // The effects above read the current props and accessors through this, so they only rerun
+  // on their own dependencies
+  latestRef.current = { indexItems, startSearch };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
+    setIsDropdownOpen(true);
+    setHighlightedOption(-1);
+  };
+
+  // Only for searches the user commits to: Enter, or a picked suggestion or recent search
+  const rememberSearch = (query: string) => {
+    if (!recentSearchesKey || query.trim().length < minSearchLength) return;
+    setRecentSearches(addRecentSearch(recentSearchesKey, query));
+  };
+
+  const isQueryLongEnough = debouncedQuery.trim().length >= minSearchLength;
+  const showsRecentSearches = !searchQuery.trim() && recentSearches.length > 0;
+  const dropdownOptions = showsRecentSearches ? recentSearches : onSuggestionPick && isQueryLongEnough ? suggestions : [];
+  const showsDropdown = isDropdownOpen && dropdownOptions.length > 0;
+
+  const pickSuggestion = (suggestion: SearchSuggestion, action: SuggestionAction) => {
+    rememberSearch(searchQuery);
+    setIsDropdownOpen(false);
+    onSuggestionPick?.(suggestion.key, action);
+  };
+
+  const pickRecentSearch = (query: string) => {
+    rememberSearch(query);
+    setSearchQuery(query);
+    setDebouncedQuery(query);
+    setHighlightedOption(-1);
+  };
+
+  const pickOption = (index: number, action: SuggestionAction) => {
+    if (showsRecentSearches) {
+      pickRecentSearch(recentSearches[index]);
+    } else {
+      pickSuggestion(suggestions[index], action);
+    }
+  };
+
+  // Arrows move through the dropdown and Enter picks from it; otherwise Enter and
+  // Shift+Enter step through the matches in find mode
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (dropdownOptions.length === 0) return;
+      e.preventDefault();
+      setIsDropdownOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedOption((index) => Math.max(-1, Math.min(dropdownOptions.length - 1, index + step)));
+      return;
+    }
+    if (e.key === 'Escape') {
+      setIsDropdownOpen(false);
+      setHighlightedOption(-1);
+      return;
+    }
+    if (e.key !== 'Enter') return;
+    if (showsDropdown && highlightedOption >= 0) {
+      e.preventDefault();
+      pickOption(highlightedOption, e.shiftKey ? 'reveal' : 'select');
+      return;
+    }
+    rememberSearch(searchQuery);
+    if (!matchKeys) {
+      // Filter mode: apply the query now instead of after the debounce
+      setDebouncedQuery(searchQuery);
+      return;
+    }
+    e.preventDefault();
+    stepMatch(e.shiftKey ? -1 : 1);
   };
 
   const clearSearch = () => {
     setSearchQuery('');
     setDebouncedQuery('');
+    setQueryErrors([]);
+    setSuggestions([]);
+    showMatch(null, 0);
+    onSearchResultsChange?.(null);
     onSearchStateChange?.(false, '', true); // Added true to indicate search was cleared
   };
 
@@ -120,7 +402,15 @@ function SearchBarComponent<T extends SearchableItem>({
           placeholder={placeholder}
           value={searchQuery}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsDropdownOpen(true)}
+          onBlur={() => setIsDropdownOpen(false)}
           className="generic-search-input"
+          role="combobox"
+          aria-expanded={showsDropdown}
+          aria-controls={dropdownId}
+          aria-autocomplete="list"
+          aria-activedescendant={showsDropdown && highlightedOption >= 0 ? `${dropdownId}-${highlightedOption}` : undefined}
         />
         {searchQuery && (
           <button
@@ -135,12 +425,85 @@ function SearchBarComponent<T extends SearchableItem>({
         <div className="search-icon">
           🔍
         </div>
+        {showsDropdown && (
+          <ul className="search-dropdown" id={dropdownId} role="listbox">
+            {showsRecentSearches && <li className="search-dropdown-heading" role="presentation">Recent searches</li>}
+            {dropdownOptions.map((option, index) => {
+              const isRecent = typeof option === 'string';
+              return (
+                <li
+                  key={isRecent ? option : option.key}
+                  id={`${dropdownId}-${index}`}
+                  role="option"
+                  aria-selected={index === highlightedOption}
+                  className={`search-dropdown-option ${index === highlightedOption ? 'highlighted' : ''}`}
+                  // Keep focus in the input so the dropdown stays open until the pick
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setHighlightedOption(index)}
+                  onClick={(e) => pickOption(index, e.shiftKey ? 'reveal' : 'select')}
+                >
+                  {isRecent ? (
+                    <span className="search-dropdown-name">🕘 {option}</span>
+                  ) : (
+                    <>
+                      <span className="search-dropdown-name">{option.name}</span>
+                      <span className="search-dropdown-path">{option.path}</span>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+            {!showsRecentSearches && (
+              <li className="search-dropdown-hint" role="presentation">
+                Enter to select · Shift+Enter to show in the tree
+              </li>
+            )}
+          </ul>
+        )}
       </div>
+      {onModeChange && (
+        <div className="search-mode-toggle" role="group" aria-label="Search mode">
+          <button
+            type="button"
+            className={mode === 'filter' ? 'active' : ''}
+            aria-pressed={mode === 'filter'}
+            onClick={() => onModeChange('filter')}
+          >
+            Filter
+          </button>
+          <button
+            type="button"
+            className={mode === 'find' ? 'active' : ''}
+            aria-pressed={mode === 'find'}
+            onClick={() => onModeChange('find')}
+          >
+            Find
+          </button>
+        </div>
+      )}
+      {mode === 'find' && matchKeys && (
+        <div className="search-find-nav">
+          <span className="search-find-count" aria-live="polite">
+            {matchKeys.length > 0 ? `${activeMatch + 1} of ${matchKeys.length}` : 'No matches'}
+          </span>
+          <button type="button" onClick={() => stepMatch(-1)} disabled={matchKeys.length === 0} aria-label="Previous match" title="Previous match (Shift+Enter)">
+            ▲
+          </button>
+          <button type="button" onClick={() => stepMatch(1)} disabled={matchKeys.length === 0} aria-label="Next match" title="Next match (Enter)">
+            ▼
+          </button>
+        </div>
+      )}
       {debouncedQuery && debouncedQuery.length > 0 && debouncedQuery.length < minSearchLength && (
         <div className="search-hint">
           Type at least {minSearchLength} characters to search
         </div>
       )}
+      {queryErrors.map((queryError) => (
+        <div key={queryError} className="search-hint search-error" role="alert">
+          {queryError}
+        </div>
+      ))}
     </div>
   );
 }
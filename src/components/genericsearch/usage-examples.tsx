@@ -1,7 +1,7 @@
 // Example usage of the generic SearchBar component
 
 import React, { useState } from 'react';
-import SearchBar from './searchbar';
+import SearchBar, { SearchFieldDefinition } from './searchbar';
 
 // Example 1: Simple list search
 interface User {
@@ -49,6 +49,12 @@ const ProductSearchExample = () => {
     return `${product.title} ${product.description} ${product.category}`;
   };
 
+  // Qualified terms, e.g. `category:books id:42 -"used"`
+  const productSearchFields: Record<string, SearchFieldDefinition<Product>> = {
+    id: { field: (product) => String(product.id), exact: true },
+    category: { field: 'category' },
+  };
+
   return (
     <div>
       <SearchBar<Product>
@@ -56,6 +62,7 @@ const ProductSearchExample = () => {
         onFilteredDataChange={setFilteredProducts}
         placeholder="Search products..."
         searchField={getSearchableText}
+        searchFields={productSearchFields}
         minSearchLength={3}
         debounceMs={500}
       />
@@ -84,6 +91,7 @@ const MenuSearchExample = () => {
         searchField="name"
         childrenField="subMenus"
         minSearchLength={2}
+        fuzzy
         className="menu-search-container"
       />
       {/* Render filtered menu items */}
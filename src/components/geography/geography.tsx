@@ -1,34 +1,77 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { GeographyNode } from '../../models/geography-tree';
-import { MockGeographyHierarchyData } from '../../core/mock/data/mock-geography-data';
+import { useAvailabilityCheck, useHierarchyData } from '../../core/providers/hierarchy-data-context';
+import { findNodeByKey, getNodeKey } from '../../core/utils/tree-node-utils';
+import { setNodesChecked } from '../../core/selection/selection-actions';
 import TreeList from '../tree-list/tree-list';
-import SearchBar from '../genericsearch/searchbar';
+import { SelectionMode } from '../../core/selection/selection-modes';
+import SearchBar, { SearchFieldDefinition, SearchMode, SearchResults, SuggestionAction } from '../genericsearch/searchbar';
+import HierarchyStatus from '../hierarchy-status/hierarchy-status';
+import DiagnosticsBanner from '../diagnostics-banner/diagnostics-banner';
+import PasteList from '../paste-list/paste-list';
+import GroupPicker from '../group-picker/group-picker';
 import './geography.css';
 
 export interface GeographyProps {
   selectedGeographies?: string[];
   setSelectedGeographies?: React.Dispatch<React.SetStateAction<string[]>>;
+  // Categories chosen on the previous step; geographies without data for them are flagged
+  selectedCategories?: string[];
+  autoSelectParents?: boolean;
+  selectionMode?: SelectionMode;
 }
 
+// Qualifiers for the search box, e.g. `id:101`, `group:"Western Europe"`
+const GEOGRAPHY_SEARCH_FIELDS: Record<string, SearchFieldDefinition<GeographyNode>> = {
+  id: { field: (node) => String(node.geographyID ?? ''), exact: true },
+  group: { field: (node) => [node.level1Group, node.level2Group].filter(Boolean).join(' ') },
+  def: { field: 'definition' },
+};
+
+// Stable default so the availability memo does not re-run on every render
+const EMPTY_SELECTION: string[] = [];
+
 const Geography: React.FC<GeographyProps> = ({
   selectedGeographies = [],
-  setSelectedGeographies
+  setSelectedGeographies,
+  selectedCategories = EMPTY_SELECTION,
+  autoSelectParents,
+  selectionMode
 }) => {
-  const [dataSource, setDataSource] = useState<GeographyNode[]>([]);
+  const { roots: dataSource, status, error, reload, childLoads, loadChildren, diagnostics, synonyms } = useHierarchyData('geography');
+  const availabilityCheck = useAvailabilityCheck();
+  const unavailableKeys = useMemo(
+    () => availabilityCheck?.findUnavailableKeys('geography', selectedCategories),
+    [availabilityCheck, selectedCategories]
+  );
   const [filteredData, setFilteredData] = useState<GeographyNode[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>('filter');
+  const [activeMatchKey, setActiveMatchKey] = useState<string | null>(null);
   const [shouldResetTree, setShouldResetTree] = useState(false);
 
   useEffect(() => {
-    setDataSource(MockGeographyHierarchyData);
-    setFilteredData(MockGeographyHierarchyData);
-  }, []);
+    setFilteredData(dataSource);
+  }, [dataSource]);
 
   const handleFilteredDataChange = (filtered: GeographyNode[]) => {
     setFilteredData(filtered);
   };
 
+  // A suggestion picked from the search dropdown: tick it like its checkbox, then show it
+  const handleSuggestionPick = (key: string, action: SuggestionAction) => {
+    const node = findNodeByKey(dataSource, key);
+    if (!node) return;
+    if (action === 'select') {
+      setSelectedGeographies?.((prevItems) =>
+        setNodesChecked(prevItems, dataSource, [node], true, { mode: selectionMode ?? 'independent', autoSelectParents })
+      );
+    }
+    setActiveMatchKey(key);
+  };
+
   const handleSearchStateChange = (searching: boolean, query: string, isCleared?: boolean) => {
     setIsSearching(searching);
     setSearchQuery(query);
@@ -46,23 +89,67 @@ const Geography: React.FC<GeographyProps> = ({
         onSearchStateChange={handleSearchStateChange}
         placeholder="Search geographies..."
         searchField="geographyName"
+        searchFields={GEOGRAPHY_SEARCH_FIELDS}
         childrenField="geographies"
         minSearchLength={1}
         className="geography-search-container"
+        fuzzy
+        synonyms={synonyms}
+        alternativeNamesField="alternativeNames"
+        getItemKey={getNodeKey}
+        onSearchResultsChange={setSearchResults}
+        mode={searchMode}
+        onModeChange={setSearchMode}
+        onActiveMatchChange={setActiveMatchKey}
+        onSuggestionPick={handleSuggestionPick}
+        recentSearchesKey="recentSearches.geography"
       />
-      <TreeList
-        data={filteredData}
-        heading="Select Geographies"
-        showSelectAllButton={true}
-        selectedGeographies={selectedGeographies}
-        setSelectedGeographies={setSelectedGeographies}
-        isSearching={isSearching}
-        searchQuery={searchQuery}
-        initiallyExpanded={false}
-        nodeType="geography"
-        shouldReset={shouldResetTree}
-        onResetComplete={() => setShouldResetTree(false)}
-      />
+      <HierarchyStatus status={status} error={error} label="geographies" onRetry={reload} />
+      <DiagnosticsBanner diagnostics={diagnostics} label="Geography" />
+      {status === 'ready' && (
+        <PasteList
+          hierarchy={dataSource}
+          itemLabel="geographies"
+          setSelectedItems={setSelectedGeographies}
+          selectionMode={selectionMode}
+          autoSelectParents={autoSelectParents}
+        />
+      )}
+      {status === 'ready' && (
+        <GroupPicker
+          hierarchy={dataSource}
+          itemLabel="geographies"
+          selectedItems={selectedGeographies}
+          setSelectedItems={setSelectedGeographies}
+          selectionMode={selectionMode}
+          autoSelectParents={autoSelectParents}
+        />
+      )}
+      {status === 'ready' && (
+        <TreeList
+          data={filteredData}
+          sourceData={dataSource}
+          heading="Select Geographies"
+          showSelectAllButton={true}
+          selectedGeographies={selectedGeographies}
+          setSelectedGeographies={setSelectedGeographies}
+          isSearching={isSearching}
+          searchQuery={searchQuery}
+          searchResults={searchResults}
+          searchMode={searchMode}
+          activeMatchKey={activeMatchKey}
+          initiallyExpanded={false}
+          nodeType="geography"
+          unavailableKeys={unavailableKeys}
+          unavailableReason="No data for the selected categories"
+          autoSelectParents={autoSelectParents}
+          selectionMode={selectionMode}
+          shouldReset={shouldResetTree}
+          onResetComplete={() => setShouldResetTree(false)}
+          onLoadChildren={loadChildren}
+          childLoadState={childLoads}
+        />
+      )}
     </div>
   );
 };
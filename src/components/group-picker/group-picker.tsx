@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { TreeNodeType, indexNodesByKey } from '../../core/utils/tree-node-utils';
+import { SelectionMode } from '../../core/selection/selection-modes';
+import { setNodesChecked } from '../../core/selection/selection-actions';
+import { createSelectionEvaluator } from '../../core/selection/selection-rules';
+import {
+  LevelGroup,
+  collectLevelGroups,
+  getGroupNodes,
+  getGroupSelectionState,
+} from '../../core/selection/level-groups';
+import './group-picker.css';
+
+interface GroupPickerProps {
+  hierarchy: TreeNodeType[];
+  // Plural noun for labels, e.g. "geographies"
+  itemLabel: string;
+  selectedItems?: string[];
+  setSelectedItems?: Dispatch<SetStateAction<string[]>>;
+  selectionMode?: SelectionMode;
+  autoSelectParents?: boolean;
+}
+
+// Stable default so the selection memo does not re-run on every render
+const EMPTY_SELECTION: string[] = [];
+
+const STATE_LABELS = {
+  all: 'All selected',
+  some: 'Partly selected',
+  none: '',
+};
+
+// Collapsible list of level 1 / level 2 groups with buttons to select or clear a whole group
+const GroupPicker = ({
+  hierarchy,
+  itemLabel,
+  selectedItems = EMPTY_SELECTION,
+  setSelectedItems,
+  selectionMode = 'independent',
+  autoSelectParents = false,
+}: GroupPickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const groups = useMemo(() => collectLevelGroups(hierarchy), [hierarchy]);
+  // Every group's nodes, looked up once per hierarchy rather than per group and render
+  const groupNodes = useMemo(() => {
+    const index = indexNodesByKey(hierarchy);
+    const nodesById = new Map<string, TreeNodeType[]>();
+    const collect = (group: LevelGroup) => {
+      nodesById.set(group.id, getGroupNodes(group, index));
+      group.children.forEach(collect);
+    };
+    groups.forEach(collect);
+    return nodesById;
+  }, [groups, hierarchy]);
+  const isSelected = useMemo(() => createSelectionEvaluator(selectedItems, hierarchy), [selectedItems, hierarchy]);
+
+  if (!setSelectedItems || groups.length === 0) return null;
+
+  // Same path as ticking the checkboxes, so mode, locks and roll-up apply
+  const applyGroup = (group: LevelGroup, selected: boolean) => {
+    const nodes = groupNodes.get(group.id) ?? [];
+    setSelectedItems((prevItems) =>
+      setNodesChecked(prevItems, hierarchy, nodes, selected, { mode: selectionMode, autoSelectParents })
+    );
+  };
+
+  const renderGroup = (group: LevelGroup) => {
+    const nodes = groupNodes.get(group.id) ?? [];
+    const state = getGroupSelectionState(nodes, isSelected, selectionMode);
+    const count = nodes.length;
+    const name = group.name || 'Other';
+    return (
+      <li key={group.id} className={`group-picker-item level-${group.level}`}>
+        <div className={`group-picker-row ${state}`}>
+          <span className="group-picker-name">{name}</span>
+          <span className="group-picker-count">{count}</span>
+          {state !== 'none' && <span className="group-picker-state">{STATE_LABELS[state]}</span>}
+          <button
+            type="button"
+            className="group-picker-btn"
+            onClick={() => applyGroup(group, true)}
+            disabled={state === 'all'}
+            aria-label={`Select ${name}`}
+          >
+            Select
+          </button>
+          <button
+            type="button"
+            className="group-picker-btn"
+            onClick={() => applyGroup(group, false)}
+            disabled={state === 'none'}
+            aria-label={`Clear ${name}`}
+          >
+            Clear
+          </button>
+        </div>
+        {group.children.length > 0 && <ul className="group-picker-list">{group.children.map(renderGroup)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <div className="group-picker">
+      <button
+        type="button"
+        className="group-picker-toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+      >
+        <span className={`expand-icon ${isOpen ? 'expanded' : ''}`}>▼</span>
+        Select {itemLabel} by group ({groups.length})
+      </button>
+
+      {isOpen && <ul className="group-picker-list group-picker-body">{groups.map(renderGroup)}</ul>}
+    </div>
+  );
+};
+
+export default GroupPicker;
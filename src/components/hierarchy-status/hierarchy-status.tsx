@@ -0,0 +1,39 @@
+import React from 'react';
+import { HierarchyLoadStatus } from '../../models/hierarchy-data-provider';
+import './hierarchy-status.css';
+
+interface HierarchyStatusProps {
+  status: HierarchyLoadStatus;
+  error?: string | null;
+  label: string;
+  onRetry?: () => void;
+}
+
+// Loading and error placeholder shown by the step components while the tree is unavailable
+const HierarchyStatus = ({ status, error, label, onRetry }: HierarchyStatusProps) => {
+  if (status === 'idle' || status === 'loading') {
+    return (
+      <div className="hierarchy-status hierarchy-status-loading" role="status">
+        <span className="hierarchy-status-spinner" aria-hidden="true" />
+        Loading {label}...
+      </div>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <div className="hierarchy-status hierarchy-status-error" role="alert">
+        <span>Could not load {label}{error ? `: ${error}` : '.'}</span>
+        {onRetry && (
+          <button type="button" className="hierarchy-status-retry" onClick={onRetry}>
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default HierarchyStatus;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { TreeNodeType, indexNodesByKey } from '../../core/utils/tree-node-utils';
+import { SelectionMode } from '../../core/selection/selection-modes';
+import { setNodesChecked } from '../../core/selection/selection-actions';
+import { PasteMatch, matchPastedEntries, splitPastedList } from '../../core/selection/paste-matching';
+import './paste-list.css';
+
+interface PasteListProps {
+  hierarchy: TreeNodeType[];
+  // Plural noun for labels, e.g. "geographies"
+  itemLabel: string;
+  setSelectedItems?: Dispatch<SetStateAction<string[]>>;
+  selectionMode?: SelectionMode;
+  autoSelectParents?: boolean;
+}
+
+const STATUS_LABELS: Record<PasteMatch['status'], string> = {
+  matched: 'Matched',
+  ambiguous: 'Several matches',
+  suggested: 'Did you mean',
+  unmatched: 'Not found',
+};
+
+// The candidate a row starts with: the match itself, or nothing where the user has to choose
+const initialChoice = (match: PasteMatch) =>
+  match.status === 'matched' && match.candidates[0].lockReason === null ? match.candidates[0].key : '';
+
+// "Paste list" button and dialog: resolve a pasted list of names or ids and tick the accepted matches
+const PasteList = ({
+  hierarchy,
+  itemLabel,
+  setSelectedItems,
+  selectionMode = 'independent',
+  autoSelectParents = false,
+}: PasteListProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [matches, setMatches] = useState<PasteMatch[] | null>(null);
+  // Accepted node key per entry; empty means the entry is skipped
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  const index = useMemo(() => indexNodesByKey(hierarchy), [hierarchy]);
+
+  const close = () => {
+    setIsOpen(false);
+    setText('');
+    setMatches(null);
+    setChoices({});
+  };
+
+  const handleReview = () => {
+    const found = matchPastedEntries(splitPastedList(text), hierarchy);
+    setMatches(found);
+    setChoices(Object.fromEntries(found.map((match) => [match.entry, initialChoice(match)])));
+  };
+
+  const acceptedKeys = Object.values(choices).filter((key, position, keys) => key && keys.indexOf(key) === position);
+
+  // Same path as ticking the checkboxes, so mode, locks and roll-up apply
+  const handleApply = () => {
+    const nodes = acceptedKeys.map((key) => index.get(key)).filter((node): node is TreeNodeType => !!node);
+    setSelectedItems?.((prevItems) =>
+      setNodesChecked(prevItems, hierarchy, nodes, true, { mode: selectionMode, autoSelectParents })
+    );
+    close();
+  };
+
+  if (!setSelectedItems) return null;
+
+  const counts = matches?.reduce<Record<PasteMatch['status'], number>>(
+    (totals, match) => ({ ...totals, [match.status]: totals[match.status] + 1 }),
+    { matched: 0, ambiguous: 0, suggested: 0, unmatched: 0 }
+  );
+
+  return (
+    <div className="paste-list">
+      <button type="button" className="paste-list-btn" onClick={() => setIsOpen(true)}>
+        Paste list
+      </button>
+
+      {isOpen && (
+        <div className="paste-list-dialog" role="dialog" aria-label={`Paste a list of ${itemLabel}`}>
+          {!matches ? (
+            <>
+              <label className="paste-list-label" htmlFor={`paste-list-${itemLabel}`}>
+                Paste {itemLabel} names or IDs, one per line or separated by commas
+              </label>
+              <textarea
+                id={`paste-list-${itemLabel}`}
+                className="paste-list-input"
+                rows={8}
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+              />
+              <div className="paste-list-buttons">
+                <button
+                  type="button"
+                  className="paste-list-btn paste-list-btn-primary"
+                  onClick={handleReview}
+                  disabled={splitPastedList(text).length === 0}
+                >
+                  Find matches
+                </button>
+                <button type="button" className="paste-list-btn" onClick={close}>
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              {counts && (
+                <div className="paste-list-summary">
+                  {counts.matched} matched, {counts.ambiguous} with several matches, {counts.suggested} with
+                  suggestions, {counts.unmatched} not found
+                </div>
+              )}
+              <table className="paste-list-review">
+                <thead>
+                  <tr>
+                    <th>Entry</th>
+                    <th>Status</th>
+                    <th>Select</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map((match) => (
+                    <tr key={match.entry} className={`paste-row ${match.status}`}>
+                      <td>{match.entry}</td>
+                      <td>
+                        <span className={`paste-status ${match.status}`}>{STATUS_LABELS[match.status]}</span>
+                      </td>
+                      <td>
+                        {match.candidates.length > 0 ? (
+                          <select
+                            className="paste-row-choice"
+                            value={choices[match.entry] ?? ''}
+                            onChange={(event) =>
+                              setChoices((prev) => ({ ...prev, [match.entry]: event.target.value }))
+                            }
+                            aria-label={`Match for ${match.entry}`}
+                          >
+                            <option value="">Skip</option>
+                            {match.candidates.map((candidate) => (
+                              <option key={candidate.key} value={candidate.key} disabled={candidate.lockReason !== null}>
+                                {candidate.path}
+                                {candidate.lockReason ? ` (${candidate.lockReason})` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="paste-row-none">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="paste-list-buttons">
+                <button
+                  type="button"
+                  className="paste-list-btn paste-list-btn-primary"
+                  onClick={handleApply}
+                  disabled={acceptedKeys.length === 0}
+                >
+                  Select {acceptedKeys.length} {acceptedKeys.length === 1 ? 'item' : 'items'}
+                </button>
+                <button type="button" className="paste-list-btn" onClick={() => setMatches(null)}>
+                  Back
+                </button>
+                <button type="button" className="paste-list-btn" onClick={close}>
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PasteList;
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { SelectionPreset, SelectionPresetStorage } from '../../models/selection-preset';
+import { useHierarchyData } from '../../core/providers/hierarchy-data-context';
+import { mergeSelections, reconcileSelection } from '../../core/selection/selection-presets';
+import { useSelectionHistoryBatching } from '../../core/selection/use-selection-history';
+import './selection-presets.css';
+
+interface SelectionPresetsProps {
+  storage: SelectionPresetStorage;
+  selectedCategories: string[];
+  selectedGeographies: string[];
+  setSelectedCategories: Dispatch<SetStateAction<string[]>>;
+  setSelectedGeographies: Dispatch<SetStateAction<string[]>>;
+}
+
+interface PresetMessage {
+  type: 'info' | 'warning' | 'error';
+  text: string;
+}
+
+const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Save, load, rename and delete named selections from the wizard panel
+const SelectionPresets = ({
+  storage,
+  selectedCategories,
+  selectedGeographies,
+  setSelectedCategories,
+  setSelectedGeographies,
+}: SelectionPresetsProps) => {
+  const category = useHierarchyData('category');
+  const geography = useHierarchyData('geography');
+  const { batch } = useSelectionHistoryBatching();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [presets, setPresets] = useState<SelectionPreset[]>([]);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [message, setMessage] = useState<PresetMessage | null>(null);
+  const isMounted = useRef(true);
+  // Preset being renamed; cleared once the rename is committed or cancelled, so the blur that
+  // follows Enter or Escape does nothing
+  const activeRename = useRef<string | null>(null);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const stored = await storage.list();
+      if (isMounted.current) setPresets(stored);
+    } catch (error) {
+      if (isMounted.current) setMessage({ type: 'error', text: describeError(error) });
+    }
+  }, [storage]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs a storage change, then re-reads the list so other tabs' edits show up too
+  const persist = async (change: () => Promise<void>, success: string) => {
+    try {
+      await change();
+      if (isMounted.current) setMessage({ type: 'info', text: success });
+    } catch (error) {
+      if (isMounted.current) setMessage({ type: 'error', text: describeError(error) });
+    }
+    if (isMounted.current) await refresh();
+  };
+
+  const hasSelections = selectedCategories.length > 0 || selectedGeographies.length > 0;
+
+  // Saving under an existing name updates that preset
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name || !hasSelections) return;
+    const now = new Date().toISOString();
+    const existing = presets.find((preset) => preset.name === name);
+    const preset: SelectionPreset = {
+      id: existing?.id ?? createPresetId(),
+      name,
+      categories: selectedCategories,
+      geographies: selectedGeographies,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    setNewName('');
+    persist(() => storage.save(preset), existing ? `Updated "${name}"` : `Saved "${name}"`);
+  };
+
+  const startRename = (preset: SelectionPreset) => {
+    activeRename.current = preset.id;
+    setRenamingId(preset.id);
+    setRenameValue(preset.name);
+  };
+
+  const cancelRename = () => {
+    activeRename.current = null;
+    setRenamingId(null);
+  };
+
+  // Names identify presets when saving, so another preset's name is refused
+  const handleRename = (preset: SelectionPreset) => {
+    if (activeRename.current !== preset.id) return;
+    const name = renameValue.trim();
+    cancelRename();
+    if (!name || name === preset.name) return;
+    if (presets.some((other) => other.id !== preset.id && other.name === name)) {
+      setMessage({ type: 'error', text: `A selection named "${name}" already exists` });
+      return;
+    }
+    persist(
+      () => storage.save({ ...preset, name, updatedAt: new Date().toISOString() }),
+      `Renamed "${preset.name}" to "${name}"`
+    );
+  };
+
+  const handleDelete = (preset: SelectionPreset) => {
+    persist(() => storage.remove(preset.id), `Deleted "${preset.name}"`);
+  };
+
+  // Entries whose node no longer exists are dropped and listed in the message
+  const handleLoad = async (preset: SelectionPreset, merge: boolean) => {
+    try {
+      const [categories, geographies] = await Promise.all([
+        reconcileSelection(preset.categories, category.roots, category.provider),
+        reconcileSelection(preset.geographies, geography.roots, geography.provider),
+      ]);
+      if (!isMounted.current) return;
+
+      batch(() => {
+        setSelectedCategories((prev) => (merge ? mergeSelections(prev, categories.tokens) : categories.tokens));
+        setSelectedGeographies((prev) => (merge ? mergeSelections(prev, geographies.tokens) : geographies.tokens));
+      });
+
+      const missing = [
+        ...categories.missing.map((token) => `category ${token}`),
+        ...geographies.missing.map((token) => `geography ${token}`),
+      ];
+      const action = merge ? 'Merged' : 'Loaded';
+      setMessage(
+        missing.length > 0
+          ? {
+              type: 'warning',
+              text: `${action} "${preset.name}". ${missing.length} saved ${missing.length === 1 ? 'entry no longer exists' : 'entries no longer exist'} and ${missing.length === 1 ? 'was' : 'were'} skipped: ${missing.join(', ')}`,
+            }
+          : { type: 'info', text: `${action} "${preset.name}"` }
+      );
+    } catch (error) {
+      if (isMounted.current) setMessage({ type: 'error', text: describeError(error) });
+    }
+  };
+
+  return (
+    <div className="selection-presets">
+      <button
+        type="button"
+        className="presets-toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+      >
+        <span className={`expand-icon ${isOpen ? 'expanded' : ''}`}>▼</span>
+        Saved selections ({presets.length})
+      </button>
+
+      {isOpen && (
+        <div className="presets-body">
+          <div className="preset-save">
+            <input
+              type="text"
+              className="preset-name-input"
+              placeholder="Name the current selection"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') handleSave();
+              }}
+              aria-label="Preset name"
+            />
+            <button
+              type="button"
+              className="preset-btn preset-btn-primary"
+              onClick={handleSave}
+              disabled={!newName.trim() || !hasSelections}
+            >
+              Save
+            </button>
+          </div>
+
+          {message && (
+            <div className={`preset-message preset-message-${message.type}`} role={message.type === 'info' ? 'status' : 'alert'}>
+              {message.text}
+            </div>
+          )}
+
+          {presets.length === 0 ? (
+            <p className="presets-empty">No saved selections yet.</p>
+          ) : (
+            <ul className="preset-list">
+              {presets.map((preset) => (
+                <li key={preset.id} className="preset-item">
+                  {renamingId === preset.id ? (
+                    <input
+                      type="text"
+                      className="preset-name-input"
+                      value={renameValue}
+                      autoFocus
+                      onChange={(event) => setRenameValue(event.target.value)}
+                      onBlur={() => handleRename(preset)}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') handleRename(preset);
+                        if (event.key === 'Escape') cancelRename();
+                      }}
+                      aria-label={`New name for ${preset.name}`}
+                    />
+                  ) : (
+                    <span className="preset-name" title={`${preset.categories.length} categories, ${preset.geographies.length} geographies`}>
+                      {preset.name}
+                    </span>
+                  )}
+                  <div className="preset-actions">
+                    <button type="button" className="preset-btn" onClick={() => handleLoad(preset, false)} title="Replace the current selections">
+                      Load
+                    </button>
+                    <button type="button" className="preset-btn" onClick={() => handleLoad(preset, true)} title="Add to the current selections">
+                      Merge
+                    </button>
+                    <button
+                      type="button"
+                      className="preset-btn"
+                      onClick={() => startRename(preset)}
+                    >
+                      Rename
+                    </button>
+                    <button type="button" className="preset-btn preset-btn-danger" onClick={() => handleDelete(preset)}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionPresets;
@@ -0,0 +1,210 @@
+import React, { useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { useHierarchyData } from '../../core/providers/hierarchy-data-context';
+import { mergeSelections } from '../../core/selection/selection-presets';
+import { useSelectionHistoryBatching } from '../../core/selection/use-selection-history';
+import {
+  ImportPreviewRow,
+  buildExportRows,
+  collectImportTokens,
+  matchImportRows,
+  parseSelectionFile,
+  toCsv,
+  toJson,
+} from '../../core/selection/selection-transfer';
+import './selection-transfer.css';
+
+interface SelectionTransferProps {
+  selectedCategories: string[];
+  selectedGeographies: string[];
+  setSelectedCategories: Dispatch<SetStateAction<string[]>>;
+  setSelectedGeographies: Dispatch<SetStateAction<string[]>>;
+}
+
+interface ImportPreview {
+  fileName: string;
+  rows: ImportPreviewRow[];
+}
+
+const STATUS_LABELS: Record<ImportPreviewRow['status'], string> = {
+  matched: 'Matched',
+  ambiguous: 'Ambiguous',
+  unmatched: 'Not found',
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox and Safari cancel the download if the URL is revoked before it has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const readFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+
+// Export the current selections to CSV/JSON and import them back with a preview of the matches
+const SelectionTransfer = ({
+  selectedCategories,
+  selectedGeographies,
+  setSelectedCategories,
+  setSelectedGeographies,
+}: SelectionTransferProps) => {
+  const { roots: categoryRoots, provider: categoryProvider } = useHierarchyData('category');
+  const { roots: geographyRoots, provider: geographyProvider } = useHierarchyData('geography');
+  const { batch } = useSelectionHistoryBatching();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  // Chosen candidate per ambiguous line, as "hierarchy:key"
+  const [choices, setChoices] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const hasSelections = selectedCategories.length > 0 || selectedGeographies.length > 0;
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const rows = [
+      ...buildExportRows('category', selectedCategories, categoryRoots),
+      ...buildExportRows('geography', selectedGeographies, geographyRoots),
+    ];
+    if (format === 'csv') {
+      downloadFile(toCsv(rows), 'selections.csv', 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(toJson(rows), 'selections.json', 'application/json');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const rows = parseSelectionFile(await readFile(file), file.name);
+      setPreview({
+        fileName: file.name,
+        rows: await matchImportRows(
+          rows,
+          { category: categoryRoots, geography: geographyRoots },
+          { category: categoryProvider, geography: geographyProvider }
+        ),
+      });
+      setChoices({});
+      setError(null);
+    } catch (readError) {
+      setError(`Could not import ${file.name}: ${readError instanceof Error ? readError.message : String(readError)}`);
+    }
+  };
+
+  // Only hierarchies with a matched or chosen row are replaced; rows left unresolved do not count
+  const handleApply = (merge: boolean) => {
+    if (!preview) return;
+    const tokens = collectImportTokens(preview.rows, choices);
+
+    batch(() => {
+      if (tokens.category.length > 0) {
+        setSelectedCategories((prev) => (merge ? mergeSelections(prev, tokens.category) : tokens.category));
+      }
+      if (tokens.geography.length > 0) {
+        setSelectedGeographies((prev) => (merge ? mergeSelections(prev, tokens.geography) : tokens.geography));
+      }
+    });
+    setPreview(null);
+  };
+
+  const counts = preview
+    ? preview.rows.reduce(
+        (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+        { matched: 0, ambiguous: 0, unmatched: 0 }
+      )
+    : null;
+
+  return (
+    <div className="selection-transfer">
+      <div className="transfer-actions">
+        <button type="button" className="transfer-btn" onClick={() => handleExport('csv')} disabled={!hasSelections}>
+          Export CSV
+        </button>
+        <button type="button" className="transfer-btn" onClick={() => handleExport('json')} disabled={!hasSelections}>
+          Export JSON
+        </button>
+        <button type="button" className="transfer-btn" onClick={() => fileInput.current?.click()}>
+          Import…
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="transfer-file-input"
+          onChange={handleFile}
+          aria-label="Import selections file"
+        />
+      </div>
+
+      {error && (
+        <div className="transfer-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {preview && counts && (
+        <div className="transfer-preview" role="dialog" aria-label="Import preview">
+          <div className="transfer-preview-header">
+            <strong>{preview.fileName}</strong>
+            <span className="transfer-preview-summary">
+              {counts.matched} matched, {counts.ambiguous} ambiguous, {counts.unmatched} not found
+            </span>
+          </div>
+
+          <ul className="transfer-preview-list">
+            {preview.rows.map((row) => (
+              <li key={row.line} className={`transfer-preview-row ${row.status}`}>
+                <span className={`transfer-status ${row.status}`}>{STATUS_LABELS[row.status]}</span>
+                <span className="transfer-row-label">{row.label || `Line ${row.line}`}</span>
+                {row.status === 'matched' && row.candidates[0].path !== row.label && (
+                  <span className="transfer-row-match">→ {row.candidates[0].path}</span>
+                )}
+                {row.status === 'ambiguous' && (
+                  <select
+                    className="transfer-row-choice"
+                    value={choices[row.line] ?? ''}
+                    onChange={(event) => setChoices((prev) => ({ ...prev, [row.line]: event.target.value }))}
+                    aria-label={`Match for ${row.label}`}
+                  >
+                    <option value="">Skip</option>
+                    {row.candidates.map(({ hierarchy, key, path }) => (
+                      <option key={`${hierarchy}:${key}`} value={`${hierarchy}:${key}`}>
+                        {path} ({hierarchy})
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="transfer-preview-buttons">
+            <button type="button" className="transfer-btn transfer-btn-primary" onClick={() => handleApply(false)}>
+              Replace selections
+            </button>
+            <button type="button" className="transfer-btn" onClick={() => handleApply(true)}>
+              Add to selections
+            </button>
+            <button type="button" className="transfer-btn" onClick={() => setPreview(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionTransfer;
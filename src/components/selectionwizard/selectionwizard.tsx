@@ -1,8 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 
 import './selection-wizard.css';
 import type { Dispatch, SetStateAction } from 'react';
+import { useAvailabilityCheck, useHierarchyData, useHierarchyNodeIndex } from '../../core/providers/hierarchy-data-context';
+import { getNodeName } from '../../core/utils/tree-node-utils';
+import { SELECTION_MODE_LABELS, SelectionMode } from '../../core/selection/selection-modes';
+import { SelectionPresetStorage } from '../../models/selection-preset';
+import SelectionPresets from '../selection-presets/selection-presets';
+import SelectionTransfer from '../selection-transfer/selection-transfer';
+import { expandSelection, isExclusionRule, parseSelectionToken } from '../../core/selection/selection-rules';
+import { findEmptyCombinations } from '../../core/selection/availability';
+import { useSelectionHistoryBatching } from '../../core/selection/use-selection-history';
 
 interface SelectionContext {
   temp: {
@@ -14,6 +23,26 @@ interface SelectionContext {
 }
 
 
+// Longer lists of empty combinations are summarised as "and N more"
+const MAX_LISTED_WARNINGS = 10;
+
+// Chip text for one selection token
+const describeSelection = (token: string, getLabel: (key: string) => string) => {
+  const { kind, key } = parseSelectionToken(token);
+  switch (kind) {
+    case 'subtree':
+      return `All of ${getLabel(key)}`;
+    case 'not-subtree':
+      return `Except ${getLabel(key)} and below`;
+    case 'not-node':
+      return `Except ${getLabel(key)}`;
+    default:
+      return getLabel(key);
+  }
+};
+
+// Selections are tokens: node keys (productID/categoryID/geographyID) or include/exclude
+// rules over them (see selection-rules); names are resolved for display
 interface SelectionWizardProps {
   selectedCategories: string[];
   setSelectedCategories?: Dispatch<SetStateAction<string[]>>;
@@ -22,6 +51,14 @@ interface SelectionWizardProps {
   currentStep?: 'category' | 'geography';
   onNextStep?: () => void;
   onPreviousStep?: () => void;
+  selectionMode?: SelectionMode;
+  // Undo/redo of selection changes; the buttons are shown when onUndo is given
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // Saved selections; the presets panel is shown when a storage is given
+  presetStorage?: SelectionPresetStorage;
 }
 
 const SelectionWizard: React.FC<SelectionWizardProps> = ({ 
@@ -31,10 +68,39 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
   setSelectedGeographies,
   currentStep = 'category',
   onNextStep,
-  onPreviousStep
+  onPreviousStep,
+  selectionMode = 'independent',
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  presetStorage
 }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  // A removal and the roll-up it triggers in the tree undo as one step
+  const { batch } = useSelectionHistoryBatching();
+  const categoryIndex = useHierarchyNodeIndex('category');
+  const geographyIndex = useHierarchyNodeIndex('geography');
+  const { roots: categoryRoots } = useHierarchyData('category');
+  const { roots: geographyRoots } = useHierarchyData('geography');
+
+  // Fall back to the raw key for nodes that are not loaded (yet)
+  const getCategoryLabel = useCallback((key: string) => {
+    const node = categoryIndex.get(key);
+    return node ? getNodeName(node) : key;
+  }, [categoryIndex]);
+  const getGeographyLabel = useCallback((key: string) => {
+    const node = geographyIndex.get(key);
+    return node ? getNodeName(node) : key;
+  }, [geographyIndex]);
+
+  // Chosen category/geography pairs the availability matrix has no data for
+  const availabilityCheck = useAvailabilityCheck();
+  const emptyCombinations = useMemo(
+    () => (availabilityCheck ? findEmptyCombinations(selectedCategories, selectedGeographies, availabilityCheck) : []),
+    [availabilityCheck, selectedCategories, selectedGeographies]
+  );
 
   // Define the flow for the components
   const flow = [
@@ -69,16 +135,23 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
     setCurrentIndex(getCurrentIndex());
   }, [location]);
 
-  // Emit selections to next-app
+  // Emit selections to next-app: the compact rule tokens, the name of each token's node for
+  // consumers not yet on keys, and expand() for consumers that need explicit lowest-level keys
   useEffect(() => {
     const event = new CustomEvent('extractorSelections', {
       detail: {
         categories: selectedCategories,
-        geographies: selectedGeographies
+        geographies: selectedGeographies,
+        categoryNames: selectedCategories.map((token) => getCategoryLabel(parseSelectionToken(token).key)),
+        geographyNames: selectedGeographies.map((token) => getGeographyLabel(parseSelectionToken(token).key)),
+        expand: () => ({
+          categories: expandSelection(selectedCategories, categoryRoots, { leavesOnly: true }),
+          geographies: expandSelection(selectedGeographies, geographyRoots, { leavesOnly: true })
+        })
       }
     });
     window.dispatchEvent(event);
-  }, [selectedCategories, selectedGeographies]);
+  }, [selectedCategories, selectedGeographies, getCategoryLabel, getGeographyLabel, categoryRoots, geographyRoots]);
 
   // Remove category and notify parent component
   const handleRemoveCategory = (categoryToRemove: string) => {
@@ -92,12 +165,14 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
         return newCategories;
       });
       
-      // Step 2: Notify TreeList to update visual state and node property
-      
+      // Step 2: Notify TreeList to update visual state and node property.
+      // Removing an exclusion rule selects its node again.
+      const rule = parseSelectionToken(categoryToRemove);
       const event = new CustomEvent('categorySelectionChanged', {
         detail: {
-          categoryName: categoryToRemove,
-          selected: false,
+          itemId: rule.key,
+          categoryName: getCategoryLabel(rule.key),
+          selected: isExclusionRule(rule),
           updateNode: true
         }
       });
@@ -117,12 +192,14 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
         return newGeographies;
       });
       
-      // Step 2: Notify Geography component to update visual state and node property
-      
+      // Step 2: Notify Geography component to update visual state and node property.
+      // Removing an exclusion rule selects its node again.
+      const rule = parseSelectionToken(geographyToRemove);
       const event = new CustomEvent('geographySelectionChanged', {
         detail: {
-          geographyName: geographyToRemove,
-          selected: false,
+          itemId: rule.key,
+          geographyName: getGeographyLabel(rule.key),
+          selected: isExclusionRule(rule),
           updateNode: true // Ensure node's selected property is updated
         }
       });
@@ -203,16 +280,62 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
                   2. Geography
                 </div>
               </div>
+              <div className="wizard-selection-mode" title="Selection mode">
+                Selecting: {SELECTION_MODE_LABELS[selectionMode]}
+              </div>
+            </div>
+            <div className="wizard-header-actions">
+              {onUndo && (
+                <div className="history-buttons">
+                  <button
+                    className="history-btn"
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    title="Undo (Ctrl+Z)"
+                    aria-label="Undo selection change"
+                  >
+                    ↶
+                  </button>
+                  <button
+                    className="history-btn"
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                    aria-label="Redo selection change"
+                  >
+                    ↷
+                  </button>
+                </div>
+              )}
+              <button 
+                className="clear-all-btn"
+                onClick={() => batch(handleClearAll)}
+                aria-label="Clear all selections"
+              >
+                Clear All
+              </button>
             </div>
-            <button 
-              className="clear-all-btn"
-              onClick={() => handleClearAll()}
-              aria-label="Clear all selections"
-            >
-              Clear All
-            </button>
           </div>
 
+          {presetStorage && setSelectedCategories && setSelectedGeographies && (
+            <SelectionPresets
+              storage={presetStorage}
+              selectedCategories={selectedCategories}
+              selectedGeographies={selectedGeographies}
+              setSelectedCategories={setSelectedCategories}
+              setSelectedGeographies={setSelectedGeographies}
+            />
+          )}
+
+          {setSelectedCategories && setSelectedGeographies && (
+            <SelectionTransfer
+              selectedCategories={selectedCategories}
+              selectedGeographies={selectedGeographies}
+              setSelectedCategories={setSelectedCategories}
+              setSelectedGeographies={setSelectedGeographies}
+            />
+          )}
+
           {/* Container for No selections made message */}
           {!tempSelectionsMade() && (
             <div className="selections-container">
@@ -255,12 +378,12 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
                   
                   {currentStep === 'category' && (
                     <div className="selection-list">
-                      {selectedCategories.map((category, index) => (
-                        <div key={`category-${index}`} className="selection-item">
-                          <span className="category-name">{category}</span>
+                      {selectedCategories.map((category) => (
+                        <div key={`category-${category}`} className={`selection-item ${isExclusionRule(parseSelectionToken(category)) ? 'exclusion' : ''}`}>
+                          <span className="category-name">{describeSelection(category, getCategoryLabel)}</span>
                           <button 
                             className="remove-btn"
-                            onClick={() => handleRemoveCategory(category)}
+                            onClick={() => batch(() => handleRemoveCategory(category))}
                             aria-label="Remove category"
                           >
                             <svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" strokeWidth="2">
@@ -310,12 +433,12 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
                   
                   {currentStep === 'geography' && (
                     <div className="selection-list">
-                      {selectedGeographies.map((geography, index) => (
-                        <div key={`geography-${index}`} className="selection-item">
-                          <span className="category-name">{geography}</span>
+                      {selectedGeographies.map((geography) => (
+                        <div key={`geography-${geography}`} className={`selection-item ${isExclusionRule(parseSelectionToken(geography)) ? 'exclusion' : ''}`}>
+                          <span className="category-name">{describeSelection(geography, getGeographyLabel)}</span>
                           <button 
                             className="remove-btn"
-                            onClick={() => handleRemoveGeography(geography)}
+                            onClick={() => batch(() => handleRemoveGeography(geography))}
                             aria-label="Remove geography"
                           >
                             <svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" strokeWidth="2">
@@ -337,6 +460,26 @@ const SelectionWizard: React.FC<SelectionWizardProps> = ({
               
             </div>
           )}
+
+          {emptyCombinations.length > 0 && (
+            <div className="availability-warnings" role="status">
+              <div className="availability-warnings-title">
+                ⚠ {emptyCombinations.length} combination{emptyCombinations.length !== 1 ? 's' : ''} will return no data
+              </div>
+              <ul className="availability-warnings-list">
+                {emptyCombinations.slice(0, MAX_LISTED_WARNINGS).map(({ categoryKey, geographyKey }) => (
+                  <li key={`${categoryKey}|${geographyKey}`}>
+                    {getCategoryLabel(categoryKey)} × {getGeographyLabel(geographyKey)}
+                  </li>
+                ))}
+              </ul>
+              {emptyCombinations.length > MAX_LISTED_WARNINGS && (
+                <div className="availability-warnings-more">
+                  and {emptyCombinations.length - MAX_LISTED_WARNINGS} more
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer Buttons */}
@@ -1,18 +1,44 @@
-import React, { useState, useEffect } from 'react';
-import { CategoryNode } from '../../models/category-tree';
-import { GeographyNode } from '../../models/geography-tree';
-import { MockCategoryHierarchyData } from '../../core/mock/data/mock-category-data';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  TreeNodeType,
+  getCanSelectSubItems,
+  getNodeChildren,
+  getNodeKey,
+  getNodeName,
+  hasUnloadedChildren,
+  indexNodesByKey,
+  indexParentsByKey,
+} from '../../core/utils/tree-node-utils';
+import { migrateNameSelections, resolveEventKeys } from '../../core/selection/selection-keys';
+import { computeCheckStates, rollUpAncestors } from '../../core/selection/selection-rollup';
+import {
+  SelectionMode,
+  getSelectableNodes,
+  getSelectionTargets,
+} from '../../core/selection/selection-modes';
+import { SelectionConstraintResult, applySelectionConstraints, getLockReason } from '../../core/selection/selection-constraints';
+import { setNodesChecked } from '../../core/selection/selection-actions';
+import { useSelectionHistoryBatching } from '../../core/selection/use-selection-history';
+import {
+  compactSelection,
+  createSelectionEvaluator,
+  pruneSelectionRules,
+  setNodesSelected,
+  setSubtreeSelected,
+} from '../../core/selection/selection-rules';
+import { MatchRange } from '../../core/search/text-match';
+import { SearchMatch, SearchMode, SearchResults } from '../genericsearch/searchbar';
+import { ChildLoadState } from '../../models/hierarchy-data-provider';
 import './tree-list.css';
 
-// Type to support both CategoryNode and GeographyNode
-type TreeNodeType = CategoryNode | GeographyNode;
-
 export interface TreeListProps {
   data?: TreeNodeType[];
   heading?: string;
   showSelectAllButton?: boolean;
   
-  // New generic props (preferred)
+  // New generic props (preferred). Entries are selection tokens: node keys (see getNodeKey)
+  // or include/exclude rules (see selection-rules); display names from older hosts are
+  // migrated to keys on load.
   selectedItems?: string[];
   setSelectedItems?: React.Dispatch<React.SetStateAction<string[]>>;
   
@@ -24,10 +50,35 @@ export interface TreeListProps {
   
   isSearching?: boolean;
   searchQuery?: string;
+  // What the SearchBar found, keyed by node key (see getItemKey); drives highlighting and
+  // match indicators
+  searchResults?: SearchResults | null;
+  // In find mode `data` stays unfiltered and activeMatchKey is revealed: its ancestors are
+  // expanded and it is scrolled into view
+  searchMode?: SearchMode;
+  activeMatchKey?: string | null;
   initiallyExpanded?: boolean;
   nodeType?: 'category' | 'geography';
   shouldReset?: boolean;
   onResetComplete?: () => void;
+
+  // Unfiltered hierarchy; while a search filters `data`, parent roll-up and
+  // partial-selection state are still computed against every loaded node
+  sourceData?: TreeNodeType[];
+  // Select a parent automatically once all of its children are selected
+  // (not applicable in leaf-only mode, where parents are never stored)
+  autoSelectParents?: boolean;
+  // What the checkbox selects: the node alone, the node with its subtree, or only its leaves
+  selectionMode?: SelectionMode;
+
+  // Lazy loading: called when a node with unfetched children is expanded
+  onLoadChildren?: (node: TreeNodeType) => void;
+  childLoadState?: Record<string, ChildLoadState>;
+
+  // Nodes without data for what is chosen in the other hierarchy; shown greyed out with
+  // unavailableReason as the tooltip, but still selectable
+  unavailableKeys?: Set<string>;
+  unavailableReason?: string;
 }
 
 // Interface for managing selection and expansion state
@@ -35,50 +86,27 @@ interface SelectionMap {
   [key: string]: boolean;
 }
 
-// Type guards
-const isCategoryNode = (node: TreeNodeType): node is CategoryNode => {
-  return 'productName' in node && 'categories' in node;
-};
-
-const isGeographyNode = (node: TreeNodeType): node is GeographyNode => {
-  return 'geographyName' in node && 'geographies' in node;
-};
-
-// Generic helper functions
-const getNodeKey = (node: TreeNodeType): string => {
-  if (isCategoryNode(node)) {
-    return String(node.productID ?? node.categoryID ?? node.productName);
-  } else {
-    return String(node.geographyID ?? node.geographyName);
-  }
-};
-
-const getNodeName = (node: TreeNodeType): string => {
-  if (isCategoryNode(node)) {
-    return node.productName;
-  } else {
-    return node.geographyName;
-  }
-};
+// Stable default so effects keyed on `data` do not re-run on every render
+const EMPTY_DATA: TreeNodeType[] = [];
 
-const getNodeChildren = (node: TreeNodeType): TreeNodeType[] => {
-  if (isCategoryNode(node)) {
-    return node.categories as TreeNodeType[];
-  } else {
-    return node.geographies as TreeNodeType[];
-  }
+// Nodes the search matched or that lead to a match, best first when the results are ranked
+const filterSearchMatches = (nodes: TreeNodeType[], results: SearchResults): TreeNodeType[] => {
+  const matched = nodes.filter((node) => results.matches.has(getNodeKey(node)));
+  if (!results.ranked) return matched;
+  const score = (node: TreeNodeType) => results.matches.get(getNodeKey(node))?.score ?? 0;
+  // Array.prototype.sort is stable, so equally relevant siblings keep their order
+  return matched.sort((a, b) => score(b) - score(a));
 };
+const EMPTY_CHILD_LOAD_STATE: Record<string, ChildLoadState> = {};
 
-const getCanSelectSubItems = (node: TreeNodeType): boolean => {
-  if (isCategoryNode(node)) {
-    return node.canSelectsubcategories;
-  } else {
-    return node.canSelectSubGeographies;
-  }
+const warnRejected = (nodeType: string, source: string, rejected: SelectionConstraintResult['rejected']) => {
+  const details = rejected.map(({ key, reason }) => `${key} (${reason})`).join(', ');
+  console.warn(`Ignored ${rejected.length} ${nodeType} selection(s) from ${source}: ${details}`);
 };
 
 const TreeList = ({
-  data = MockCategoryHierarchyData as TreeNodeType[],
+  data = EMPTY_DATA,
+  sourceData,
   heading = 'Select Items',
   showSelectAllButton = true,
   selectedItems = [],
@@ -89,11 +117,26 @@ const TreeList = ({
   setSelectedGeographies,
   isSearching = false,
   searchQuery = '',
+  searchResults,
+  searchMode = 'filter',
+  activeMatchKey = null,
   initiallyExpanded = true, // Default to true for backward compatibility
   nodeType = 'category',
   shouldReset = false,
-  onResetComplete
+  onResetComplete,
+  onLoadChildren,
+  childLoadState = EMPTY_CHILD_LOAD_STATE,
+  unavailableKeys,
+  unavailableReason,
+  autoSelectParents = false,
+  selectionMode = 'independent'
 }: TreeListProps) => {
+  const hierarchy = sourceData ?? data;
+  // While filtering, `data` holds the matched top-level branches as they are; the nodes below
+  // them are filtered through searchResults as they render
+  const isFiltering = isSearching && searchMode === 'filter';
+  const shouldRollUp = autoSelectParents && selectionMode !== 'leaf-only';
+
   // Smart prop selection: prefer generic props, fallback to specific props
   const actualSelectedItems = selectedItems && selectedItems.length > 0 
     ? selectedItems 
@@ -101,6 +144,8 @@ const TreeList = ({
     
   const actualSetSelectedItems = setSelectedItems 
     || (nodeType === 'category' ? setSelectedCategories : setSelectedGeographies);
+  // Corrections the tree makes on its own are not undo steps of their own
+  const { withoutHistory } = useSelectionHistoryBatching();
   // Selection and expansion state
   const [selection, setSelection] = useState<SelectionMap>({});
   const [expanded, setExpanded] = useState<SelectionMap>({});
@@ -130,27 +175,38 @@ const TreeList = ({
 
   // Handle search mode expansion - expand nodes that have matching children
   useEffect(() => {
-    if (isSearching && data) {
+    if (isFiltering && searchResults) {
       setExpanded((prevExpanded) => {
         const newExpanded: SelectionMap = { ...prevExpanded };
-        
-        // Expand all nodes that have children in search results
-        const expandNodesWithMatches = (nodes: TreeNodeType[]) => {
-          nodes.forEach((node) => {
-            const nodeKey = getNodeKey(node);
-            const children = getNodeChildren(node);
-            if (Array.isArray(children) && children.length > 0) {
-              newExpanded[nodeKey] = true;
-              expandNodesWithMatches(children);
-            }
-          });
-        };
-        
-        expandNodesWithMatches(data);
+        searchResults.matches.forEach((match, nodeKey) => {
+          if (match.hasMatchingDescendants) {
+            newExpanded[nodeKey] = true;
+          }
+        });
         return newExpanded;
       });
     }
-  }, [isSearching, data]);
+  }, [isFiltering, searchResults]);
+
+  // Find mode: open the branch holding the active match
+  useEffect(() => {
+    if (!activeMatchKey) return;
+    const parents = indexParentsByKey(hierarchy);
+    setExpanded((prevExpanded) => {
+      const newExpanded: SelectionMap = { ...prevExpanded };
+      let parent = parents.get(activeMatchKey);
+      while (parent) {
+        newExpanded[getNodeKey(parent)] = true;
+        parent = parents.get(getNodeKey(parent));
+      }
+      return newExpanded;
+    });
+  }, [activeMatchKey, hierarchy]);
+
+  // Called when the active match's row is rendered, including once its branch opens
+  const scrollToActiveMatch = useCallback((row: HTMLDivElement | null) => {
+    row?.scrollIntoView?.({ block: 'nearest' });
+  }, []);
 
   // Listen for external events from SelectionWizard
   useEffect(() => {
@@ -161,35 +217,33 @@ const TreeList = ({
     
     const handleSelectionChange = (event: CustomEvent<any>) => {
       
-      // Support both old and new event detail formats
-      const itemName = event.detail.itemName || event.detail[itemNameKey];
+      // Prefer the node key (itemId); hosts that still send display names are resolved by name
+      const resolvedKeys = resolveEventKeys(event.detail, itemNameKey, data);
       const { selected } = event.detail;
-      
-      // Find the node in the data
-      const findNodeByName = (nodes: TreeNodeType[], name: string): TreeNodeType | null => {
-        for (const node of nodes) {
-          const nodeName = getNodeName(node);
-          if (nodeName === name) {
-            return node;
-          }
-          const children = getNodeChildren(node);
-          if (Array.isArray(children)) {
-            const found = findNodeByName(children, name);
-            if (found) return found;
-          }
-        }
-        return null;
-      };
 
-      const targetNode = findNodeByName(data, itemName);
-      if (targetNode) {
-        const nodeKey = getNodeKey(targetNode);
-        
+      // Deselecting is always allowed; selecting a locked node is refused
+      let targetKeys = resolvedKeys;
+      if (selected) {
+        const { allowed, rejected } = applySelectionConstraints(resolvedKeys, hierarchy, selectionMode);
+        if (rejected.length > 0) {
+          warnRejected(nodeType, eventName, rejected);
+        }
+        targetKeys = allowed;
+      }
+      
+      if (targetKeys.length > 0) {
         setSelection(prev => {
           const newSelection = { ...prev };
-          newSelection[nodeKey] = selected;
+          targetKeys.forEach((nodeKey) => {
+            newSelection[nodeKey] = selected;
+          });
           return newSelection;
         });
+
+        // Parents that were rolled up must follow children changed from outside too
+        if (shouldRollUp && actualSetSelectedItems) {
+          actualSetSelectedItems((prevItems: string[]) => rollUpAncestors(hierarchy, prevItems, targetKeys));
+        }
       }
     };
 
@@ -207,20 +261,52 @@ const TreeList = ({
       window.removeEventListener(eventName, handleSelectionChange as EventListener);
       window.removeEventListener(clearAllEventName, handleClearAll as EventListener);
     };
-  }, [data]);
+  }, [data, hierarchy, nodeType, selectionMode, shouldRollUp, actualSetSelectedItems]);
+
+  // Rewrite legacy name-based selections from the host into node keys
+  useEffect(() => {
+    if (!actualSetSelectedItems || isFiltering || data.length === 0) return;
+    const { keys, migrated } = migrateNameSelections(actualSelectedItems, data);
+    if (migrated.length > 0) {
+      withoutHistory(() => actualSetSelectedItems(keys));
+    }
+  }, [actualSelectedItems, actualSetSelectedItems, data, isFiltering, withoutHistory]);
+
+  // Drop tokens the node rules refuse (locked nodes, branches in leaf-only mode) when the host
+  // pushes them in, along with rules left without effect (e.g. an exclusion whose include was removed)
+  useEffect(() => {
+    if (!actualSetSelectedItems || hierarchy.length === 0) return;
+    const { allowed, rejected } = applySelectionConstraints(actualSelectedItems, hierarchy, selectionMode);
+    if (rejected.length > 0) {
+      warnRejected(nodeType, 'selectedItems', rejected);
+    }
+    if (rejected.length > 0 || pruneSelectionRules(allowed, hierarchy) !== allowed) {
+      withoutHistory(() =>
+        actualSetSelectedItems((prevItems: string[]) =>
+          pruneSelectionRules(applySelectionConstraints(prevItems, hierarchy, selectionMode).allowed, hierarchy)
+        )
+      );
+    }
+  }, [actualSelectedItems, actualSetSelectedItems, hierarchy, nodeType, selectionMode, withoutHistory]);
+
+  // What Select All covers: the shown nodes, so only the matched branches while filtering
+  const selectAllNodes = useMemo(() => {
+    const nodes = getSelectableNodes(data, selectionMode);
+    return isFiltering && searchResults ? nodes.filter((node) => searchResults.matches.has(getNodeKey(node))) : nodes;
+  }, [data, selectionMode, isFiltering, searchResults]);
 
   // Synchronize internal selection state with external selected items prop
   useEffect(() => {
     
     if (data) {
       const newSelection: SelectionMap = {};
+      const isKeySelected = createSelectionEvaluator(actualSelectedItems, hierarchy);
       
       // Helper function to find and mark selected nodes
       const markSelectedNodes = (nodes: TreeNodeType[]) => {
         nodes.forEach((node) => {
           const nodeKey = getNodeKey(node);
-          const nodeName = getNodeName(node);
-          const isSelected = actualSelectedItems.includes(nodeName);
+          const isSelected = isKeySelected(nodeKey);
           
           if (isSelected) {
             newSelection[nodeKey] = true;
@@ -234,132 +320,107 @@ const TreeList = ({
         });
       };
       
-      markSelectedNodes(data);
+      markSelectedNodes(hierarchy);
       
       setSelection(newSelection);
       
-      // Update "Select All" state - collect all item names and check if all are selected
-      const allItemNames: string[] = [];
-      const collectNames = (nodes: TreeNodeType[]) => {
-        nodes.forEach((node) => {
-          const nodeName = getNodeName(node);
-          allItemNames.push(nodeName);
-          const children = getNodeChildren(node);
-          if (Array.isArray(children)) {
-            collectNames(children);
-          }
-        });
-      };
-      collectNames(data);
+      // Update "Select All" state - collect all selectable item keys and check if all are selected
+      const allItemKeys = selectAllNodes.map(getNodeKey);
       
-      const isAllCurrentlySelected = allItemNames.length > 0 && 
-        allItemNames.every((name: string) => actualSelectedItems.includes(name));
+      const isAllCurrentlySelected = allItemKeys.length > 0 && 
+        allItemKeys.every((key: string) => isKeySelected(key));
       setIsAllSelected(isAllCurrentlySelected);
     }
-  }, [actualSelectedItems, data]);
-
-  // Helper: Recursively set selection for a node and its children
-  const setNodeSelection = (
-    node: TreeNodeType,
-    isSelected: boolean,
-    map: SelectionMap = { ...selection }
-  ): SelectionMap => {
-    map[getNodeKey(node)] = isSelected;
-    const children = getNodeChildren(node);
-    if (Array.isArray(children)) {
-      children.forEach((child) => setNodeSelection(child, isSelected, map));
-    }
-    return map;
-  };
+  }, [actualSelectedItems, data, hierarchy, selectAllNodes]);
 
-  // Helper: Recursively check if all children are selected
-  const isCategoryAndAllSelected = (node: TreeNodeType): boolean => {
-    const children = getNodeChildren(node);
-    if (!Array.isArray(children) || children.length === 0) {
-      return !!selection[getNodeKey(node)];
-    }
-    return (
-      !!selection[getNodeKey(node)] &&
-      children.every((child) => isCategoryAndAllSelected(child))
-    );
+  // Checked / indeterminate state for every loaded node, derived from the current selection
+  const checkStates = useMemo(
+    () => computeCheckStates(hierarchy, (key) => !!selection[key], selectionMode),
+    [hierarchy, selection, selectionMode]
+  );
+
+  // Push a selection change to the parent state, rolling up ancestors of the changed nodes if enabled
+  const updateSelectedItems = (update: (prevItems: string[]) => string[], changedKeys: string[]) => {
+    if (!actualSetSelectedItems) return;
+    actualSetSelectedItems((prevItems: string[]) => {
+      const newItems = update(prevItems);
+      return shouldRollUp ? rollUpAncestors(hierarchy, newItems, changedKeys) : newItems;
+    });
   };
 
+  // Helper: whether every node in the list is selected (false for an empty list)
+  const areAllSelected = (nodes: TreeNodeType[]) =>
+    nodes.length > 0 && nodes.every((node) => !!selection[getNodeKey(node)]);
+
+  // Helper: check if the node and all of its selectable sub-items are selected
+  const isCategoryAndAllSelected = (node: TreeNodeType): boolean =>
+    areAllSelected(getSelectionTargets(node, 'cascade'));
+
   // Generic alias for backward compatibility
   const isItemAndAllSelected = isCategoryAndAllSelected;
 
-  // Helper: Recursively check if all lowest-level children are selected
-  const isLowestCategorySelected = (node: TreeNodeType): boolean => {
-    const children = getNodeChildren(node);
-    if (!Array.isArray(children) || children.length === 0) {
-      return !!selection[getNodeKey(node)];
-    }
-    return children.every((child) => isLowestCategorySelected(child));
-  };
+  // Helper: check if all selectable lowest-level items under the node are selected
+  const isLowestCategorySelected = (node: TreeNodeType): boolean =>
+    areAllSelected(getSelectionTargets(node, 'leaf-only'));
 
   // Generic alias for backward compatibility
   const isLowestItemSelected = isLowestCategorySelected;
 
-  // Toggle selection for a single node
+  // Mark the target nodes locally and push the change to the parent state. A subtree change
+  // is stored as one rule on `subtreeRoot` instead of a token per descendant.
+  const applySelection = (targets: TreeNodeType[], newState: boolean, subtreeRoot?: TreeNodeType) => {
+    const targetKeys = targets.map(getNodeKey);
+    setSelection((prev) => {
+      const newMap = { ...prev };
+      targetKeys.forEach((key) => {
+        newMap[key] = newState;
+      });
+      return newMap;
+    });
+    updateSelectedItems(
+      (prevItems: string[]) => subtreeRoot
+        ? setSubtreeSelected(prevItems, getNodeKey(subtreeRoot), newState, hierarchy)
+        : setNodesSelected(prevItems, targetKeys, newState, hierarchy),
+      targetKeys
+    );
+  };
+
+  // Toggle a node's checkbox; which nodes change depends on the selection mode
   const toggleSelection = (node: TreeNodeType) => {
+    if (getLockReason(node) !== null) return;
+    const newState = checkStates[getNodeKey(node)] !== 'checked';
+    const targetKeys = getSelectionTargets(node, selectionMode).map(getNodeKey);
     setSelection((prev) => {
       const newMap = { ...prev };
-      const nodeKey = getNodeKey(node);
-      const newState = !prev[nodeKey];
-      newMap[nodeKey] = newState;
-      
-      const nodeName = getNodeName(node);
-      
-      // Update parent state if actualSetSelectedItems is available
-      if (actualSetSelectedItems) {
-        actualSetSelectedItems((prevItems: string[]) => {
-          let newItems;
-          if (newState) {
-            // Add item if not already present
-            if (!prevItems.includes(nodeName)) {
-              newItems = [...prevItems, nodeName];
-            } else {
-              newItems = prevItems;
-            }
-          } else {
-            // Remove item
-            newItems = prevItems.filter(item => item !== nodeName);
-          }
-          
-          return newItems;
-        });
-      }
-      
+      targetKeys.forEach((key) => {
+        newMap[key] = newState;
+      });
       return newMap;
     });
+    actualSetSelectedItems?.((prevItems: string[]) =>
+      setNodesChecked(prevItems, hierarchy, [node], newState, { mode: selectionMode, autoSelectParents })
+    );
   };
 
   // Toggle select all
   const toggleSelectAll = () => {
     const newState = !isAllSelected;
     setIsAllSelected(newState);
-    let newMap: SelectionMap = { ...selection };
-    data.forEach((node) => {
-      newMap = setNodeSelection(node, newState, newMap);
-    });
+    // Locked nodes are left out of Select All
+    const selectableKeys = selectAllNodes.map(getNodeKey);
+    const newMap: SelectionMap = {};
+    if (newState) {
+      selectableKeys.forEach((key) => {
+        newMap[key] = true;
+      });
+    }
     setSelection(newMap);
     
     // Update parent state if actualSetSelectedItems is available
     if (actualSetSelectedItems) {
       if (newState) {
-        // Select all - collect all item names
-        const allItemNames: string[] = [];
-        const collectNames = (nodes: TreeNodeType[]) => {
-          nodes.forEach((node) => {
-            const nodeName = getNodeName(node);
-            allItemNames.push(nodeName);
-            const children = getNodeChildren(node);
-            if (Array.isArray(children)) {
-              collectNames(children);
-            }
-          });
-        };
-        collectNames(data);
-        actualSetSelectedItems(allItemNames);
+        // Select all - every key the current mode stores, compacted into subtree rules
+        actualSetSelectedItems(compactSelection(selectableKeys, hierarchy, selectionMode, { coverUnloaded: true }));
       } else {
         // Clear all
         actualSetSelectedItems([]);
@@ -368,50 +429,34 @@ const TreeList = ({
     }
   };
 
+  // Nodes the search matched directly, in tree order, as loaded in the full hierarchy
+  const matchedNodes = useMemo(() => {
+    if (!isSearching || !searchResults) return [];
+    const index = indexNodesByKey(hierarchy);
+    const nodes: TreeNodeType[] = [];
+    searchResults.matches.forEach((match, key) => {
+      const node = index.get(key);
+      if (match.isDirectMatch && node) nodes.push(node);
+    });
+    return nodes;
+  }, [isSearching, searchResults, hierarchy]);
+
+  const selectableMatches = matchedNodes.filter((node) => getLockReason(node) === null);
+  const lowestLevelMatches = selectableMatches.filter((node) => node.isLowestLevel);
+  const isChecked = (node: TreeNodeType) => checkStates[getNodeKey(node)] === 'checked';
+  const selectedMatchCount = matchedNodes.filter(isChecked).length;
+
+  // Tick or untick search matches as if by their checkboxes; locked matches are skipped
+  const setMatchesChecked = (nodes: TreeNodeType[], newState: boolean) => {
+    actualSetSelectedItems?.((prevItems: string[]) =>
+      setNodesChecked(prevItems, hierarchy, nodes, newState, { mode: selectionMode, autoSelectParents })
+    );
+  };
+
   // Toggle lowest-level selection for a node
   const toggleLowestCategorySelection = (node: TreeNodeType) => {
-    const children = getNodeChildren(node);
-    if (!Array.isArray(children) || children.length === 0) {
-      toggleSelection(node);
-    } else {
-      // Toggle all lowest-level children
-      const newState = !isLowestCategorySelected(node);
-      let newMap = { ...selection };
-      const lowestNodes: TreeNodeType[] = [];
-      
-      const selectLowest = (n: TreeNodeType) => {
-        const nodeChildren = getNodeChildren(n);
-        if (!Array.isArray(nodeChildren) || nodeChildren.length === 0) {
-          newMap[getNodeKey(n)] = newState;
-          lowestNodes.push(n);
-        } else {
-          nodeChildren.forEach(selectLowest);
-        }
-      };
-      selectLowest(node);
-      setSelection(newMap);
-      
-      // Update parent state if actualSetSelectedItems is available
-      if (actualSetSelectedItems) {
-        actualSetSelectedItems((prevItems: string[]) => {
-          let newItems = [...prevItems];
-          lowestNodes.forEach((lowestNode) => {
-            const nodeName = getNodeName(lowestNode);
-            if (newState) {
-              // Add item if not already present
-              if (!newItems.includes(nodeName)) {
-                newItems.push(nodeName);
-              }
-            } else {
-              // Remove item
-              newItems = newItems.filter(item => item !== nodeName);
-            }
-          });
-          
-          return newItems;
-        });
-      }
-    }
+    const lowestNodes = getSelectionTargets(node, 'leaf-only');
+    applySelection(lowestNodes, !areAllSelected(lowestNodes));
   };
 
   // Generic alias for backward compatibility
@@ -419,79 +464,100 @@ const TreeList = ({
 
   // Toggle selection for a node and all its subcategories
   const toggleAllCategorySelection = (node: TreeNodeType) => {
-    const newState = !isCategoryAndAllSelected(node);
-    let newMap = { ...selection };
-    const allNodes: TreeNodeType[] = [];
-    
-    const collectAllNodes = (n: TreeNodeType) => {
-      allNodes.push(n);
-      const children = getNodeChildren(n);
-      if (Array.isArray(children)) {
-        children.forEach(collectAllNodes);
-      }
-    };
-    
-    collectAllNodes(node);
-    setNodeSelection(node, newState, newMap);
-    setSelection({ ...newMap });
-    
-    // Update parent state if actualSetSelectedItems is available
-    if (actualSetSelectedItems) {
-      actualSetSelectedItems((prevItems: string[]) => {
-        let newItems = [...prevItems];
-        allNodes.forEach((selectedNode) => {
-          const nodeName = getNodeName(selectedNode);
-          if (newState) {
-            // Add item if not already present
-            if (!newItems.includes(nodeName)) {
-              newItems.push(nodeName);
-            }
-          } else {
-            // Remove item
-            newItems = newItems.filter(item => item !== nodeName);
-          }
-        });
-        
-        return newItems;
-      });
-    }
+    const allNodes = getSelectionTargets(node, 'cascade');
+    applySelection(allNodes, !areAllSelected(allNodes), node);
   };
 
   // Generic alias for backward compatibility
   const toggleAllItemSelection = toggleAllCategorySelection;
 
+  // Whether expanding this node should fetch its children first
+  const canLoadChildren = (node: TreeNodeType) => {
+    return !!onLoadChildren && !isFiltering && hasUnloadedChildren(node);
+  };
+
+  // Fetch children unless they are already loading or cached
+  const requestChildren = (node: TreeNodeType) => {
+    const loadState = childLoadState[getNodeKey(node)];
+    if (canLoadChildren(node) && loadState?.status !== 'loading' && loadState?.status !== 'ready') {
+      onLoadChildren?.(node);
+    }
+  };
+
+  // Nodes that start out expanded (or were expanded before a reload) fetch their children too
+  useEffect(() => {
+    if (!onLoadChildren || isFiltering) return;
+    const loadExpanded = (nodes: TreeNodeType[]) => {
+      nodes.forEach((node) => {
+        const nodeKey = getNodeKey(node);
+        if (!expanded[nodeKey]) return;
+        if (hasUnloadedChildren(node) && !childLoadState[nodeKey]) {
+          onLoadChildren(node);
+        }
+        const children = getNodeChildren(node);
+        if (Array.isArray(children)) {
+          loadExpanded(children);
+        }
+      });
+    };
+    loadExpanded(data);
+  }, [expanded, data, childLoadState, isFiltering, onLoadChildren]);
+
   // Toggle expand/collapse
   const toggleExpand = (node: TreeNodeType) => {
+    const nodeKey = getNodeKey(node);
+    if (!expanded[nodeKey]) {
+      requestChildren(node);
+    }
     setExpanded((prev) => ({
       ...prev,
-      [getNodeKey(node)]: !prev[getNodeKey(node)],
+      [nodeKey]: !prev[nodeKey],
     }));
   };
 
-  // Function to highlight search terms
-  const highlightSearchTerm = (text: string, query: string) => {
-    if (!query || !isSearching) return text;
-    
-    const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <span key={index} className="search-highlight">{part}</span>
-      ) : (
-        part
-      )
+  // Per-node spinner or retry prompt while children are being fetched
+  const renderChildLoadState = (node: TreeNodeType, level: number) => {
+    const loadState = childLoadState[getNodeKey(node)];
+    if (!loadState || loadState.status === 'ready') return null;
+
+    return (
+      <div className="tree-node-children-status" style={{ paddingLeft: 20 * (level + 1) }}>
+        {loadState.status === 'loading' ? (
+          <span className="tree-node-spinner" role="status">Loading...</span>
+        ) : (
+          <span className="tree-node-load-error" role="alert">
+            Failed to load{loadState.error ? `: ${loadState.error}` : ''}
+            <button className="tree-node-retry-btn" onClick={() => onLoadChildren?.(node)}>
+              Retry
+            </button>
+          </span>
+        )}
+      </div>
     );
   };
 
-  // Check if a node is a direct match for search
-  const isDirectMatch = (node: TreeNodeType) => {
-    return '_isDirectMatch' in node && (node as any)._isDirectMatch === true;
+  // Function to highlight search terms: the characters the search actually matched
+  const highlightSearchTerm = (text: string, ranges: MatchRange[]) => {
+    if (!isSearching || ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    ranges.forEach(({ start, end }) => {
+      if (start > position) parts.push(text.slice(position, start));
+      parts.push(<span key={start} className="search-highlight">{text.slice(start, end)}</span>);
+      position = end;
+    });
+    if (position < text.length) parts.push(text.slice(position));
+    return parts;
   };
 
-  // Check if a node has matching children
-  const hasMatchingChildren = (node: TreeNodeType) => {
-    return '_hasMatchingChildren' in node && (node as any)._hasMatchingChildren === true;
+  const getSearchMatch = (node: TreeNodeType): SearchMatch | undefined =>
+    isSearching ? searchResults?.matches.get(getNodeKey(node)) : undefined;
+
+  // While filtering, only the children the search matched or that lead to a match are shown
+  const getVisibleChildren = (node: TreeNodeType): TreeNodeType[] => {
+    const children = getNodeChildren(node);
+    return isFiltering && searchResults && Array.isArray(children) ? filterSearchMatches(children, searchResults) : children;
   };
 
   // Render tree recursively
@@ -502,18 +568,28 @@ const TreeList = ({
   ) => (
     <ul className="tree-list-ul" style={{ listStyle: 'none', paddingLeft: level === 0 ? 0 : 20 }}>
       {nodes.map((node) => {
-        const children = getNodeChildren(node);
-        const hasChildren = Array.isArray(children) && children.length > 0;
+        const children = getVisibleChildren(node);
+        const hasLoadedChildren = Array.isArray(children) && children.length > 0;
+        const hasChildren = hasLoadedChildren || canLoadChildren(node);
         const nodeKey = getNodeKey(node);
         const nodeName = getNodeName(node);
         const isExpanded = expanded[nodeKey];
-        const isNodeDirectMatch = isDirectMatch(node);
-        const nodeHasMatchingChildren = hasMatchingChildren(node);
+        const searchMatch = getSearchMatch(node);
+        const isNodeDirectMatch = !!searchMatch?.isDirectMatch;
+        const nodeHasMatchingChildren = !!searchMatch?.hasMatchingDescendants;
+        const matchedAlias = searchMatch?.alias ?? null;
         const canSelectSubItems = getCanSelectSubItems(node);
+        const checkState = checkStates[nodeKey] ?? (selection[nodeKey] ? 'checked' : 'unchecked');
+        const lockReason = getLockReason(node);
+        const isUnavailable = !lockReason && !!unavailableKeys?.has(nodeKey);
+        const isActiveMatch = isSearching && nodeKey === activeMatchKey;
         
         return (
           <li key={nodeKey}>
-            <div className={`tree-node ${isSearching ? 'search-mode' : ''} ${isNodeDirectMatch ? 'direct-match' : ''} ${nodeHasMatchingChildren ? 'has-matching-children' : ''}`}>
+            <div
+              className={`tree-node ${isSearching ? 'search-mode' : ''} ${isNodeDirectMatch ? 'direct-match' : ''} ${nodeHasMatchingChildren ? 'has-matching-children' : ''} ${isActiveMatch ? 'active-match' : ''} ${checkState === 'indeterminate' ? 'partially-selected' : ''} ${lockReason ? 'locked' : ''} ${isUnavailable ? 'unavailable' : ''}`}
+              ref={isActiveMatch ? scrollToActiveMatch : undefined}
+            >
               {/* Expand/Collapse Button */}
               {hasChildren && (
                 <button className="toggle-btn" onClick={() => toggleExpand(node)}>
@@ -525,15 +601,31 @@ const TreeList = ({
               {parent !== null && (
                 <input
                   type="checkbox"
-                  checked={!!selection[nodeKey]}
+                  checked={checkState === 'checked'}
+                  ref={(checkbox) => {
+                    // indeterminate is a DOM property only, it cannot be set as an attribute
+                    if (checkbox) checkbox.indeterminate = checkState === 'indeterminate';
+                  }}
+                  aria-checked={checkState === 'indeterminate' ? 'mixed' : checkState === 'checked'}
                   onChange={() => toggleSelection(node)}
+                  disabled={lockReason !== null}
+                  title={lockReason ?? undefined}
                   className="tree-node-checkbox"
                 />
               )}
 
               {/* Node Name with highlighting */}
-              <span className="tree-node-label">
-                {isSearching ? highlightSearchTerm(nodeName, searchQuery) : nodeName}
+              <span className="tree-node-label" title={lockReason ?? (isUnavailable ? unavailableReason : undefined)}>
+                {lockReason && (
+                  <span className="tree-node-lock" aria-label={lockReason}>🔒 </span>
+                )}
+                {isUnavailable && (
+                  <span className="tree-node-unavailable" aria-label={unavailableReason}>⚠ </span>
+                )}
+                {highlightSearchTerm(nodeName, searchMatch?.ranges ?? [])}
+                {isSearching && matchedAlias && (
+                  <span className="alias-indicator"> (matched “{matchedAlias}”)</span>
+                )}
                 {isSearching && nodeHasMatchingChildren && !isNodeDirectMatch && (
                   <span className="match-indicator"> (contains matches)</span>
                 )}
@@ -541,8 +633,8 @@ const TreeList = ({
 
               {/* Action buttons container */}
               <div className="action-buttons">
-                {/* Select only lowest level items */}
-                {parent !== null && hasChildren && (
+                {/* Select only lowest level items (the checkbox already does this in leaf-only mode) */}
+                {parent !== null && hasLoadedChildren && selectionMode !== 'leaf-only' && (
                   <button 
                     className="icon-btn lowest-btn" 
                     onClick={() => toggleLowestCategorySelection(node)}
@@ -552,8 +644,8 @@ const TreeList = ({
                   </button>
                 )}
 
-                {/* Select item and all sub-items */}
-                {canSelectSubItems && (
+                {/* Select item and all sub-items (matches the checkbox in cascade mode, not allowed in leaf-only) */}
+                {canSelectSubItems && !lockReason && selectionMode === 'independent' && (
                   <button 
                     className="icon-btn all-btn" 
                     onClick={() => toggleAllCategorySelection(node)}
@@ -566,7 +658,8 @@ const TreeList = ({
             </div>
 
             {/* Children */}
-            {hasChildren && isExpanded && renderTree(children, node, level + 1)}
+            {hasChildren && isExpanded && renderChildLoadState(node, level)}
+            {hasLoadedChildren && isExpanded && renderTree(children, node, level + 1)}
           </li>
         );
       })}
@@ -596,6 +689,38 @@ const TreeList = ({
           <small className="search-help-text">
             🔵 Direct matches | 🔘 Contains matches
           </small>
+          {searchResults && (
+            <div className="search-actions">
+              <span className="search-match-count">
+                {matchedNodes.length} {matchedNodes.length === 1 ? 'match' : 'matches'}, {selectedMatchCount} already selected
+              </span>
+              <button
+                type="button"
+                className="search-action-btn"
+                onClick={() => setMatchesChecked(selectableMatches, true)}
+                disabled={selectableMatches.every(isChecked)}
+              >
+                Select matches
+              </button>
+              <button
+                type="button"
+                className="search-action-btn"
+                onClick={() => setMatchesChecked(lowestLevelMatches, true)}
+                disabled={lowestLevelMatches.every(isChecked)}
+                title="Select only the matches at the lowest level"
+              >
+                Select lowest-level matches
+              </button>
+              <button
+                type="button"
+                className="search-action-btn"
+                onClick={() => setMatchesChecked(selectableMatches, false)}
+                disabled={!selectableMatches.some(isChecked)}
+              >
+                Deselect matches
+              </button>
+            </div>
+          )}
         </div>
       )}
       
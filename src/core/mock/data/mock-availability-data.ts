@@ -0,0 +1,9 @@
+import { AvailabilityMatrix } from '../../../models/availability';
+
+// Soft drinks are tracked everywhere, hot drinks in fewer markets
+export const MockAvailabilityMatrix: AvailabilityMatrix = {
+  '10': ['1', '2', '3', '4', '5', '6', '7', '8'],
+  '201': ['1', '2', '3', '5'],
+  '202': ['1', '105', '5', '8'],
+  '203': ['105'],
+};
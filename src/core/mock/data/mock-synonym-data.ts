@@ -0,0 +1,18 @@
+import { SynonymDictionary } from '../../../models/hierarchy-data-provider';
+
+export const MockCategorySynonyms: SynonymDictionary = {
+  'fizzy drinks': ['Carbonates'],
+  soda: ['Carbonates'],
+  pop: ['Carbonates'],
+};
+
+export const MockGeographySynonyms: SynonymDictionary = {
+  uk: ['United Kingdom'],
+  'great britain': ['United Kingdom'],
+  usa: ['United States'],
+  us: ['United States'],
+  america: ['United States'],
+  holland: ['Netherlands'],
+  uae: ['United Arab Emirates'],
+  czechia: ['Czech Republic'],
+};
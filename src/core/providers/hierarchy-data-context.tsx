@@ -0,0 +1,301 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ChildLoadState,
+  HierarchyDataProvider,
+  HierarchyDataProviders,
+  HierarchyNodeMap,
+  HierarchyState,
+  HierarchyType,
+} from '../../models/hierarchy-data-provider';
+import { HierarchyDiagnostic } from '../../models/hierarchy-diagnostic';
+import { AvailabilityDataProvider, AvailabilityState } from '../../models/availability';
+import { AvailabilityCheck, createAvailabilityCheck, indexAvailabilityMatrix } from '../selection/availability';
+import { formatDiagnosticsReport, hasValidationErrors, validateHierarchy } from '../utils/hierarchy-validation';
+import { TreeNodeType, getNodeKey, indexNodesByKey, replaceNodeChildren } from '../utils/tree-node-utils';
+import { createMockAvailabilityProvider, createMockHierarchyDataProviders } from './mock-hierarchy-data-provider';
+import { MockAvailabilityMatrix } from '../mock/data/mock-availability-data';
+
+type HierarchyStates = {
+  [K in HierarchyType]: HierarchyState<HierarchyNodeMap[K]>;
+};
+
+interface HierarchyDataContextValue {
+  providers: HierarchyDataProviders;
+  states: HierarchyStates;
+  availability: AvailabilityState;
+  // Built once per matrix and loaded trees, and shared so its cached results are too
+  availabilityCheck: AvailabilityCheck | null;
+  load: (type: HierarchyType) => void;
+  // Loads the hierarchy unless a load was already started
+  ensureLoaded: (type: HierarchyType) => void;
+  loadChildren: (type: HierarchyType, parentKey: string) => void;
+}
+
+const createInitialState = <T,>(): HierarchyState<T> => ({
+  roots: [],
+  status: 'idle',
+  error: null,
+  childLoads: {},
+  diagnostics: [],
+  synonyms: {},
+});
+
+const HIERARCHY_LABELS: Record<HierarchyType, string> = {
+  category: 'Category hierarchy',
+  geography: 'Geography hierarchy',
+};
+
+const logDiagnostics = (type: HierarchyType, diagnostics: HierarchyDiagnostic[]) => {
+  if (process.env.NODE_ENV !== 'production' && diagnostics.length > 0) {
+    console.warn(formatDiagnosticsReport(HIERARCHY_LABELS[type], diagnostics));
+  }
+};
+
+const validationErrorMessage = (diagnostics: HierarchyDiagnostic[]) => {
+  const count = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  return `the data failed validation with ${count} error${count !== 1 ? 's' : ''}`;
+};
+
+const mockProviders = createMockHierarchyDataProviders();
+const mockAvailabilityProvider = createMockAvailabilityProvider(MockAvailabilityMatrix);
+
+const HierarchyDataContext = createContext<HierarchyDataContextValue | null>(null);
+
+interface HierarchyDataContextProviderProps {
+  // Missing entries fall back to the mock hierarchies
+  providers?: Partial<HierarchyDataProviders>;
+  // Which categories have data in which geographies; without one nothing is flagged, except
+  // over the mock hierarchies, which use the mock matrix
+  availabilityProvider?: AvailabilityDataProvider;
+  children: React.ReactNode;
+}
+
+export const HierarchyDataContextProvider = ({ providers, availabilityProvider, children }: HierarchyDataContextProviderProps) => {
+  const resolvedProviders = useMemo<HierarchyDataProviders>(() => ({
+    category: providers?.category ?? mockProviders.category,
+    geography: providers?.geography ?? mockProviders.geography,
+  }), [providers?.category, providers?.geography]);
+
+  const [states, setStates] = useState<HierarchyStates>({
+    category: createInitialState(),
+    geography: createInitialState(),
+  });
+
+  // Guards against applying responses that arrive after a newer load or unmount
+  const requestIds = useRef<Record<HierarchyType, number>>({ category: 0, geography: 0 });
+  // Set as soon as a load starts, so components mounting before it finishes do not start another
+  const loadStarted = useRef<Record<HierarchyType, boolean>>({ category: false, geography: false });
+  const isMounted = useRef(false);
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const updateState = useCallback((type: HierarchyType, patch: Partial<HierarchyState<TreeNodeType>>) => {
+    setStates((prev) => ({
+      ...prev,
+      [type]: { ...prev[type], ...patch },
+    }));
+  }, []);
+
+  const load = useCallback((type: HierarchyType) => {
+    const requestId = ++requestIds.current[type];
+    loadStarted.current[type] = true;
+    const provider = resolvedProviders[type] as HierarchyDataProvider<TreeNodeType>;
+    updateState(type, { status: 'loading', error: null, childLoads: {}, diagnostics: [] });
+
+    provider
+      .getRoots()
+      .then((roots) => {
+        if (!isMounted.current || requestIds.current[type] !== requestId) return;
+        const diagnostics = validateHierarchy(type, roots);
+        // A malformed payload is reported instead of being rendered as a subtly broken tree
+        if (hasValidationErrors(diagnostics)) {
+          updateState(type, { roots: [], status: 'error', error: validationErrorMessage(diagnostics), diagnostics });
+        } else {
+          updateState(type, { roots, status: 'ready', error: null, diagnostics });
+        }
+      })
+      .catch((error: unknown) => {
+        if (!isMounted.current || requestIds.current[type] !== requestId) return;
+        const message = error instanceof Error ? error.message : String(error);
+        updateState(type, { status: 'error', error: message });
+      });
+
+    // Search still works without aliases, so a failure here is only logged
+    provider
+      .getSynonyms?.()
+      .then((synonyms) => {
+        if (!isMounted.current || requestIds.current[type] !== requestId) return;
+        updateState(type, { synonyms });
+      })
+      .catch((error: unknown) => {
+        if (process.env.NODE_ENV !== 'production') {
+          console.warn(`${HIERARCHY_LABELS[type]}: could not load search synonyms`, error);
+        }
+      });
+  }, [resolvedProviders, updateState]);
+
+  const ensureLoaded = useCallback((type: HierarchyType) => {
+    if (!loadStarted.current[type]) load(type);
+  }, [load]);
+
+  // Fetches one node's children and grafts them into the loaded tree, which doubles as the cache
+  const loadChildren = useCallback((type: HierarchyType, parentKey: string) => {
+    const requestId = requestIds.current[type];
+    const provider = resolvedProviders[type] as HierarchyDataProvider<TreeNodeType>;
+    const setChildLoad = (childLoad: ChildLoadState) => {
+      setStates((prev) => {
+        const current = prev[type] as HierarchyState<TreeNodeType>;
+        return {
+          ...prev,
+          [type]: { ...current, childLoads: { ...current.childLoads, [parentKey]: childLoad } },
+        };
+      });
+    };
+
+    setChildLoad({ status: 'loading', error: null });
+    provider
+      .getChildren(parentKey)
+      .then((children) => {
+        if (!isMounted.current || requestIds.current[type] !== requestId) return;
+        setStates((prev) => {
+          const current = prev[type] as HierarchyState<TreeNodeType>;
+          const roots = replaceNodeChildren(current.roots, parentKey, children);
+          // Validate the grafted tree so keys clashing with other branches are caught too
+          const diagnostics = validateHierarchy(type, roots);
+          const valid = !hasValidationErrors(diagnostics);
+          const childLoad: ChildLoadState = valid
+            ? { status: 'ready', error: null }
+            : { status: 'error', error: validationErrorMessage(diagnostics) };
+          return {
+            ...prev,
+            [type]: {
+              ...current,
+              roots: valid ? roots : current.roots,
+              childLoads: { ...current.childLoads, [parentKey]: childLoad },
+              diagnostics,
+            },
+          };
+        });
+      })
+      .catch((error: unknown) => {
+        if (!isMounted.current || requestIds.current[type] !== requestId) return;
+        const message = error instanceof Error ? error.message : String(error);
+        setChildLoad({ status: 'error', error: message });
+      });
+  }, [resolvedProviders]);
+
+  useEffect(() => logDiagnostics('category', states.category.diagnostics), [states.category.diagnostics]);
+  useEffect(() => logDiagnostics('geography', states.geography.diagnostics), [states.geography.diagnostics]);
+
+  // The mock matrix only knows the mock keys, so real hierarchies never fall back to it
+  const usesMockHierarchies =
+    resolvedProviders.category === mockProviders.category && resolvedProviders.geography === mockProviders.geography;
+  const resolvedAvailabilityProvider = availabilityProvider ?? (usesMockHierarchies ? mockAvailabilityProvider : null);
+  const [availability, setAvailability] = useState<AvailabilityState>({ matrix: null, status: 'idle', error: null });
+  useEffect(() => {
+    if (!resolvedAvailabilityProvider) {
+      setAvailability({ matrix: null, status: 'idle', error: null });
+      return;
+    }
+    let isCurrent = true;
+    setAvailability({ matrix: null, status: 'loading', error: null });
+    resolvedAvailabilityProvider
+      .getAvailability()
+      .then((matrix) => {
+        if (isCurrent) setAvailability({ matrix, status: 'ready', error: null });
+      })
+      .catch((error: unknown) => {
+        if (!isCurrent) return;
+        const message = error instanceof Error ? error.message : String(error);
+        setAvailability({ matrix: null, status: 'error', error: message });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [resolvedAvailabilityProvider]);
+
+  const matrixIndex = useMemo(
+    () => (availability.matrix ? indexAvailabilityMatrix(availability.matrix) : null),
+    [availability.matrix]
+  );
+  const availabilityCheck = useMemo(
+    () =>
+      matrixIndex
+        ? createAvailabilityCheck(matrixIndex, { category: states.category.roots, geography: states.geography.roots })
+        : null,
+    [matrixIndex, states.category.roots, states.geography.roots]
+  );
+
+  // Swapping a provider invalidates whatever was loaded from the previous one
+  const previousProviders = useRef(resolvedProviders);
+  useEffect(() => {
+    if (previousProviders.current === resolvedProviders) return;
+    (Object.keys(resolvedProviders) as HierarchyType[]).forEach((type) => {
+      if (previousProviders.current[type] !== resolvedProviders[type]) {
+        requestIds.current[type] += 1;
+        loadStarted.current[type] = false;
+        updateState(type, createInitialState());
+      }
+    });
+    previousProviders.current = resolvedProviders;
+  }, [resolvedProviders, updateState]);
+
+  const value = useMemo(
+    () => ({ providers: resolvedProviders, states, availability, availabilityCheck, load, ensureLoaded, loadChildren }),
+    [resolvedProviders, states, availability, availabilityCheck, load, ensureLoaded, loadChildren]
+  );
+
+  return <HierarchyDataContext.Provider value={value}>{children}</HierarchyDataContext.Provider>;
+};
+
+const useHierarchyDataContext = (): HierarchyDataContextValue => {
+  const context = useContext(HierarchyDataContext);
+  if (!context) {
+    throw new Error('Hierarchy data hooks must be used inside a HierarchyDataContextProvider');
+  }
+  return context;
+};
+
+// Loads the roots of a hierarchy on first use and exposes its loading state
+export const useHierarchyData = <K extends HierarchyType>(type: K) => {
+  const { providers, states, load, ensureLoaded, loadChildren } = useHierarchyDataContext();
+  const state = states[type] as HierarchyState<HierarchyNodeMap[K]>;
+
+  useEffect(() => {
+    if (state.status === 'idle') {
+      ensureLoaded(type);
+    }
+  }, [state.status, type, ensureLoaded]);
+
+  const reload = useCallback(() => load(type), [load, type]);
+  const loadNodeChildren = useCallback(
+    (node: TreeNodeType) => loadChildren(type, getNodeKey(node)),
+    [loadChildren, type]
+  );
+
+  return {
+    ...state,
+    provider: providers[type] as HierarchyDataProvider<HierarchyNodeMap[K]>,
+    reload,
+    loadChildren: loadNodeChildren,
+  };
+};
+
+// Key -> node lookup for resolving selected keys to display names
+export const useHierarchyNodeIndex = <K extends HierarchyType>(type: K) => {
+  const { roots } = useHierarchyData(type);
+  return useMemo(() => indexNodesByKey<HierarchyNodeMap[K]>(roots), [roots]);
+};
+
+// Whether a category/geography pair has data, over the loaded trees; null while no matrix is
+// available, in which case nothing should be flagged. Loads both hierarchies.
+export const useAvailabilityCheck = (): AvailabilityCheck | null => {
+  const { availabilityCheck } = useHierarchyDataContext();
+  useHierarchyData('category');
+  useHierarchyData('geography');
+  return availabilityCheck;
+};
@@ -0,0 +1,46 @@
+import { SelectionPreset } from '../../models/selection-preset';
+import { createLocalStoragePresetStorage } from './local-storage-preset-storage';
+
+const preset = (id: string, name: string): SelectionPreset => ({
+  id,
+  name,
+  categories: ['+10'],
+  geographies: ['101'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+beforeEach(() => window.localStorage.clear());
+
+test('saves, updates and removes presets by id', async () => {
+  const storage = createLocalStoragePresetStorage();
+  await storage.save(preset('a', 'Europe'));
+  await storage.save(preset('b', 'Americas'));
+  await storage.save({ ...preset('a', 'Western Europe'), geographies: ['1'] });
+
+  expect(await storage.list()).toEqual([{ ...preset('a', 'Western Europe'), geographies: ['1'] }, preset('b', 'Americas')]);
+
+  await storage.remove('a');
+  expect(await storage.list()).toEqual([preset('b', 'Americas')]);
+});
+
+test('skips stored entries that are not presets', async () => {
+  window.localStorage.setItem('presets', JSON.stringify([preset('a', 'Europe'), { id: 'old', name: 'Old', categories: 'x' }, null]));
+  expect(await createLocalStoragePresetStorage({ storageKey: 'presets' }).list()).toEqual([preset('a', 'Europe')]);
+
+  window.localStorage.setItem('presets', '{not json');
+  expect(await createLocalStoragePresetStorage({ storageKey: 'presets' }).list()).toEqual([]);
+});
+
+test('reports storage that refuses writes', async () => {
+  const full = {
+    getItem: () => null,
+    setItem: () => {
+      throw new Error('quota exceeded');
+    },
+  } as unknown as Storage;
+
+  await expect(createLocalStoragePresetStorage({ storage: full }).save(preset('a', 'Europe'))).rejects.toThrow(
+    'Could not save presets: quota exceeded'
+  );
+});
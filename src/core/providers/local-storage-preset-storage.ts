@@ -0,0 +1,68 @@
+import { SelectionPreset, SelectionPresetStorage } from '../../models/selection-preset';
+
+export interface LocalStoragePresetStorageOptions {
+  storageKey?: string;
+  // Defaults to window.localStorage; sessionStorage or a test double work too
+  storage?: Storage;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isPreset = (value: unknown): value is SelectionPreset => {
+  if (typeof value !== 'object' || value === null) return false;
+  const preset = value as Record<string, unknown>;
+  return (
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    isStringArray(preset.categories) &&
+    isStringArray(preset.geographies) &&
+    typeof preset.createdAt === 'string' &&
+    typeof preset.updatedAt === 'string'
+  );
+};
+
+export const createLocalStoragePresetStorage = ({
+  storageKey = 'selectionPresets',
+  storage,
+}: LocalStoragePresetStorageOptions = {}): SelectionPresetStorage => {
+  const getStorage = () => storage ?? window.localStorage;
+
+  // Entries that do not look like presets (older formats, manual edits) are skipped
+  const read = (): SelectionPreset[] => {
+    const raw = getStorage().getItem(storageKey);
+    if (!raw) return [];
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed.filter(isPreset) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (presets: SelectionPreset[]) => {
+    try {
+      getStorage().setItem(storageKey, JSON.stringify(presets));
+    } catch (error) {
+      // Quota exceeded or storage disabled (e.g. private browsing)
+      throw new Error(`Could not save presets: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return {
+    list: async () => read(),
+    save: async (preset: SelectionPreset) => {
+      const presets = read();
+      const index = presets.findIndex((item) => item.id === preset.id);
+      if (index >= 0) {
+        presets[index] = preset;
+      } else {
+        presets.push(preset);
+      }
+      write(presets);
+    },
+    remove: async (id: string) => {
+      write(read().filter((preset) => preset.id !== id));
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import { HierarchyDataProvider, HierarchyDataProviders, SynonymDictionary } from '../../models/hierarchy-data-provider';
+import { AvailabilityDataProvider, AvailabilityMatrix } from '../../models/availability';
+import { MockCategoryHierarchyData } from '../mock/data/mock-category-data';
+import { MockGeographyHierarchyData } from '../mock/data/mock-geography-data';
+import { MockCategorySynonyms, MockGeographySynonyms } from '../mock/data/mock-synonym-data';
+import { TreeNodeType, findNodeByKey, getNodeChildren, withNodeChildren } from '../utils/tree-node-utils';
+
+export interface MockHierarchyDataProviderOptions {
+  // Artificial latency so loading states are visible during development
+  delayMs?: number;
+  // Serve one level at a time, as a large production taxonomy would
+  lazy?: boolean;
+  // Search aliases served by getSynonyms
+  synonyms?: SynonymDictionary;
+}
+
+// Serves an in-memory, fully nested hierarchy
+export const createMockHierarchyDataProvider = <T extends TreeNodeType>(
+  data: T[],
+  { delayMs = 0, lazy = false, synonyms }: MockHierarchyDataProviderOptions = {}
+): HierarchyDataProvider<T> => {
+  const respond = <R>(value: R): Promise<R> =>
+    new Promise((resolve) => setTimeout(() => resolve(value), delayMs));
+
+  // Keeps hasChildren but drops the nested nodes so they must be fetched on expand
+  const shallow = (nodes: T[]): T[] =>
+    lazy ? nodes.map((node) => ({ ...withNodeChildren(node, []), hasChildren: node.hasChildren })) : nodes;
+
+  return {
+    getRoots: () => respond(shallow(data)),
+    getChildren: (parentId: string) => {
+      const parent = findNodeByKey(data, parentId);
+      return respond(parent ? shallow(getNodeChildren(parent) as T[]) : []);
+    },
+    getNode: (id: string) => respond(findNodeByKey(data, id)),
+    ...(synonyms && { getSynonyms: () => respond(synonyms) }),
+  };
+};
+
+export const createMockHierarchyDataProviders = (
+  options: MockHierarchyDataProviderOptions = {}
+): HierarchyDataProviders => ({
+  category: createMockHierarchyDataProvider(MockCategoryHierarchyData, { synonyms: MockCategorySynonyms, ...options }),
+  geography: createMockHierarchyDataProvider(MockGeographyHierarchyData, { synonyms: MockGeographySynonyms, ...options }),
+});
+
+// Serves a fixed availability matrix
+export const createMockAvailabilityProvider = (
+  matrix: AvailabilityMatrix,
+  { delayMs = 0 }: Pick<MockHierarchyDataProviderOptions, 'delayMs'> = {}
+): AvailabilityDataProvider => ({
+  getAvailability: () => new Promise((resolve) => setTimeout(() => resolve(matrix), delayMs)),
+});
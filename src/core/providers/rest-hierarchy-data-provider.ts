@@ -0,0 +1,62 @@
+import { HierarchyDataProvider, SynonymDictionary } from '../../models/hierarchy-data-provider';
+
+export interface RestHierarchyDataProviderOptions<T> {
+  // Base URL of the hierarchy resource, e.g. https://api.example.com/categories
+  baseUrl: string;
+  rootsPath?: string;
+  childrenPath?: (parentId: string) => string;
+  nodePath?: (id: string) => string;
+  // Path of the search alias dictionary; omitted when the service has none
+  synonymsPath?: string;
+  headers?: Record<string, string> | (() => Record<string, string>);
+  fetchFn?: typeof fetch;
+  // Converts a response body into nodes, e.g. createFlatTreeParser for parent-pointer rows.
+  // parentId is null for getRoots and the requested parent for getChildren.
+  parseNodes?: (payload: unknown, parentId: string | null) => T[];
+}
+
+export const createRestHierarchyDataProvider = <T>({
+  baseUrl,
+  rootsPath = '',
+  childrenPath = (parentId) => `/${encodeURIComponent(parentId)}/children`,
+  nodePath = (id) => `/${encodeURIComponent(id)}`,
+  synonymsPath,
+  headers,
+  fetchFn,
+  parseNodes = (payload) => payload as T[],
+}: RestHierarchyDataProviderOptions<T>): HierarchyDataProvider<T> => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <R>(path: string): Promise<R> => {
+    const doFetch = fetchFn ?? fetch;
+    const response = await doFetch(`${root}${path}`, {
+      headers: {
+        Accept: 'application/json',
+        ...(typeof headers === 'function' ? headers() : headers),
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Request to ${root}${path} failed with status ${response.status}`);
+    }
+    return response.json() as Promise<R>;
+  };
+
+  return {
+    getRoots: async () => parseNodes(await request<unknown>(rootsPath), null),
+    getChildren: async (parentId: string) => parseNodes(await request<unknown>(childrenPath(parentId)), parentId),
+    getNode: async (id: string) => {
+      try {
+        return await request<T>(nodePath(id));
+      } catch (error) {
+        // A missing node is a normal answer for getNode, not a failure
+        if (error instanceof Error && /status 404$/.test(error.message)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    ...(synonymsPath !== undefined && {
+      getSynonyms: () => request<SynonymDictionary>(synonymsPath),
+    }),
+  };
+};
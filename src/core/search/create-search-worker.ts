@@ -0,0 +1,4 @@
+// Kept in its own module: `import.meta` only parses in the bundle, so this is loaded on demand
+// where workers exist (see search-index-client)
+export const createSearchWorker = (): Worker =>
+  new Worker(new URL('./search-index.worker.ts', import.meta.url));
@@ -0,0 +1,33 @@
+const MAX_RECENT_SEARCHES = 5;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Recent queries of one search box, newest first. Storage problems only cost the history,
+// so they are ignored.
+export const loadRecentSearches = (storageKey: string, storage?: Storage): string[] => {
+  try {
+    const raw = (storage ?? window.localStorage).getItem(storageKey);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return isStringArray(parsed) ? parsed.slice(0, MAX_RECENT_SEARCHES) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Moves the query to the front and returns the new list
+export const addRecentSearch = (storageKey: string, query: string, storage?: Storage): string[] => {
+  const trimmed = query.trim();
+  const current = loadRecentSearches(storageKey, storage);
+  if (!trimmed) return current;
+  const next = [trimmed, ...current.filter((item) => item.toLowerCase() !== trimmed.toLowerCase())].slice(
+    0,
+    MAX_RECENT_SEARCHES
+  );
+  try {
+    (storage ?? window.localStorage).setItem(storageKey, JSON.stringify(next));
+  } catch {
+    // Quota exceeded or storage disabled (e.g. private browsing)
+  }
+  return next;
+};
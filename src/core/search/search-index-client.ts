@@ -0,0 +1,157 @@
+import { ParsedSearchQuery, SearchQueryOptions } from './search-query';
+import { SearchIndexEntry, SearchIndexResult, SearchSession, buildSearchIndex, createSearchSession } from './search-index';
+
+// Messages between a client and search-index.worker.ts
+export type SearchWorkerRequest =
+  | { type: 'index'; entries: SearchIndexEntry[]; locale?: string }
+  | { type: 'search'; id: number; query: ParsedSearchQuery; options: SearchQueryOptions }
+  | { type: 'cancel' };
+
+export interface SearchWorkerResponse {
+  id: number;
+  // null when a newer search superseded this one
+  result: SearchIndexResult | null;
+}
+
+export type SearchWorkerFactory = () => Worker;
+
+export interface SearchIndexClient {
+  // Replaces the indexed data; later searches run against it
+  index: (entries: SearchIndexEntry[], locale?: string) => void;
+  // Resolves to null when a newer search was started before this one finished
+  search: (query: ParsedSearchQuery, options?: SearchQueryOptions) => Promise<SearchIndexResult | null>;
+  // Makes any running search resolve to null
+  cancel: () => void;
+  dispose: () => void;
+}
+
+let workerFactory: Promise<SearchWorkerFactory | null> | null = null;
+
+// Replaces the bundled search worker, e.g. with one a host serves itself; null searches on
+// the main thread
+export const setSearchWorkerFactory = (factory: SearchWorkerFactory | null) => {
+  workerFactory = Promise.resolve(factory);
+};
+
+// The bundled worker, loaded once on first use wherever the app is rendered, standalone or
+// federated. Environments without workers (old browsers, jsdom) never load it.
+const getWorkerFactory = (): Promise<SearchWorkerFactory | null> => {
+  if (!workerFactory) {
+    workerFactory =
+      typeof Worker === 'undefined'
+        ? Promise.resolve(null)
+        : import('./create-search-worker')
+            .then((module) => module.createSearchWorker)
+            .catch((error: unknown) => {
+              console.warn('Search worker unavailable, searching on the main thread', error);
+              return null;
+            });
+  }
+  return workerFactory;
+};
+
+const createWorkerClient = (worker: Worker): SearchIndexClient => {
+  let lastId = 0;
+  const pending = new Map<number, (result: SearchIndexResult | null) => void>();
+
+  worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+    const { id, result } = event.data;
+    pending.get(id)?.(id === lastId ? result : null);
+    pending.delete(id);
+  };
+
+  const post = (request: SearchWorkerRequest) => worker.postMessage(request);
+  const resolveStale = () => {
+    pending.forEach((resolve) => resolve(null));
+    pending.clear();
+  };
+
+  return {
+    index: (entries, locale) => post({ type: 'index', entries, locale }),
+    search: (query, options = {}) => {
+      // Earlier searches are stale now; their callers get null right away
+      resolveStale();
+      const id = ++lastId;
+      return new Promise((resolve) => {
+        pending.set(id, resolve);
+        post({ type: 'search', id, query, options });
+      });
+    },
+    cancel: () => {
+      lastId++;
+      resolveStale();
+      post({ type: 'cancel' });
+    },
+    dispose: () => {
+      resolveStale();
+      worker.terminate();
+    },
+  };
+};
+
+const createMainThreadClient = (): SearchIndexClient => {
+  let session: SearchSession = createSearchSession(buildSearchIndex([]));
+  let lastId = 0;
+  const cancel = () => {
+    lastId++;
+  };
+
+  return {
+    index: (entries, locale) => {
+      session = createSearchSession(buildSearchIndex(entries, locale));
+    },
+    search: (query, options = {}) => {
+      const id = ++lastId;
+      return session.search(query, options, () => id !== lastId).then((result) => (id === lastId ? result : null));
+    },
+    cancel,
+    dispose: cancel,
+  };
+};
+
+// Searches in chunks on the main thread until the worker is ready, then in the worker. Either
+// way only the latest search resolves with a result.
+export const createSearchIndexClient = (): SearchIndexClient => {
+  const mainThread = createMainThreadClient();
+  let worker: SearchIndexClient | null = null;
+  let indexed: { entries: SearchIndexEntry[]; locale?: string } | null = null;
+  let isDisposed = false;
+
+  getWorkerFactory().then((factory) => {
+    if (!factory || isDisposed) return;
+    try {
+      worker = createWorkerClient(factory());
+    } catch (error) {
+      console.warn('Search worker unavailable, searching on the main thread', error);
+      return;
+    }
+    if (indexed) worker.index(indexed.entries, indexed.locale);
+  });
+
+  return {
+    index: (entries, locale) => {
+      indexed = { entries, locale };
+      // Once the worker has taken over, indexing on the main thread as well would only block it
+      if (worker) {
+        worker.index(entries, locale);
+      } else {
+        mainThread.index(entries, locale);
+      }
+    },
+    search: (query, options) => {
+      if (!worker) return mainThread.search(query, options);
+      // A search started before the worker was ready is stale now too
+      mainThread.cancel();
+      return worker.search(query, options);
+    },
+    cancel: () => {
+      mainThread.cancel();
+      worker?.cancel();
+    },
+    dispose: () => {
+      isDisposed = true;
+      mainThread.dispose();
+      worker?.dispose();
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { buildSearchIndex, canNarrowSearch, createSearchSession, flattenForSearch, runSearch } from './search-index';
+import { parseSearchQuery } from './search-query';
+
+interface Node {
+  id: string;
+  name: string;
+  children?: Node[];
+}
+
+const tree: Node[] = [
+  {
+    id: 'eu',
+    name: 'Europe',
+    children: [
+      { id: 'es', name: 'Spain' },
+      { id: 'pt', name: 'Portugal' },
+    ],
+  },
+  { id: 'as', name: 'Asia', children: [{ id: 'jp', name: 'Japan' }] },
+];
+
+const index = buildSearchIndex(
+  flattenForSearch(tree, { getKey: (node) => node.id, getName: (node) => node.name, getChildren: (node) => node.children })
+);
+
+test('finds matches with their ancestors and paths', async () => {
+  const result = await runSearch(index, parseSearchQuery('spa'));
+  expect(result?.matchKeys).toEqual(['es']);
+  expect(result?.matches.es.ranges).toEqual([{ start: 0, end: 3 }]);
+  expect(result?.ancestors).toEqual({ eu: 0.9 });
+
+  const byPath = await runSearch(index, parseSearchQuery('path:europe'));
+  expect(byPath?.matchKeys).toEqual(['eu', 'es', 'pt']);
+});
+
+test('narrows only when the new query can match no more than the last', () => {
+  const narrows = (previous: string, next: string, fuzzy = false) =>
+    canNarrowSearch(parseSearchQuery(previous), parseSearchQuery(next), { fuzzy });
+
+  expect(narrows('spa', 'spai')).toBe(true);
+  expect(narrows('spa', 'spa eu')).toBe(true);
+  expect(narrows('spa', 'sp')).toBe(false);
+  expect(narrows('spa', 'spa -eu')).toBe(false);
+  expect(narrows('spa', 'spai', true)).toBe(false);
+});
+
+test('a stale search stops between chunks', async () => {
+  const result = await runSearch(index, parseSearchQuery('a'), {}, { chunkSize: 2, isStale: () => true });
+  expect(result).toBeNull();
+});
+
+test('a session does not narrow from a search run with other options', async () => {
+  const fieldIndex = buildSearchIndex(
+    flattenForSearch([{ id: '1' }, { id: '10' }, { id: '101' }], {
+      getKey: (node) => node.id,
+      getName: (node) => node.id,
+      getChildren: () => undefined,
+      getFields: (node) => ({ id: node.id }),
+    })
+  );
+  const session = createSearchSession(fieldIndex);
+
+  const exact = await session.search(parseSearchQuery('id:10', ['id']), { exactFields: ['id'] });
+  expect(exact?.matchKeys).toEqual(['10']);
+  const partial = await session.search(parseSearchQuery('id:10', ['id']), {});
+  expect(partial?.matchKeys).toEqual(['10', '101']);
+});
@@ -0,0 +1,209 @@
+import { FoldedText, foldText } from './text-folding';
+import { MatchRange } from './text-match';
+import { ParsedSearchQuery, SearchQueryOptions, evaluateSearchQuery } from './search-query';
+
+// One node, flattened for searching. Plain data, so it can be posted to a worker.
+export interface SearchIndexEntry {
+  key: string;
+  parentKey: string | null;
+  name: string;
+  path: string;
+  // Texts of the qualified fields, including the node's path (see PATH_FIELD)
+  fields: Record<string, string>;
+  alternativeNames: string[];
+}
+
+// Entries in tree order plus everything derived from them once per data set
+export interface SearchIndex {
+  entries: SearchIndexEntry[];
+  parents: Map<string, string | null>;
+  foldCache: Map<string, FoldedText>;
+}
+
+export interface IndexedMatch {
+  name: string;
+  // Names from the root down to the node, joined by PATH_SEPARATOR
+  path: string;
+  score: number;
+  // In the node's name, for highlighting
+  ranges: MatchRange[];
+  alias: string | null;
+}
+
+export interface SearchIndexResult {
+  // Nodes that satisfy the query, by key
+  matches: Record<string, IndexedMatch>;
+  // Their keys in tree order (object keys would put numeric ids first)
+  matchKeys: string[];
+  // Nodes with a match somewhere below them, with the best score in their subtree
+  ancestors: Record<string, number>;
+}
+
+export interface SearchRunOptions {
+  // Only these keys can match, e.g. the matches of a query this one narrows
+  candidates?: Set<string>;
+  // Checked between chunks; a stale search stops and resolves to null
+  isStale?: () => boolean;
+  chunkSize?: number;
+}
+
+// Qualifier searching the names of a node and its ancestors, e.g. `path:europe`
+export const PATH_FIELD = 'path';
+export const PATH_SEPARATOR = ' › ';
+
+const DEFAULT_CHUNK_SIZE = 2000;
+
+export interface SearchIndexAccessors<T> {
+  // Defaults to the item's position, see getPositionKey
+  getKey?: (item: T) => string;
+  getName: (item: T) => string;
+  getChildren: (item: T) => T[] | undefined;
+  getFields?: (item: T) => Record<string, string>;
+  getAlternativeNames?: (item: T) => string[];
+}
+
+// Key of the index-th child of parentKey, for items without keys of their own: "0.3.1"
+export const getPositionKey = (parentKey: string | null, index: number): string =>
+  parentKey === null ? String(index) : `${parentKey}.${index}`;
+
+// Walks the tree once and returns its nodes as index entries, parents before children
+export const flattenForSearch = <T>(items: T[], accessors: SearchIndexAccessors<T>): SearchIndexEntry[] => {
+  const entries: SearchIndexEntry[] = [];
+  const visit = (nodes: T[], parentKey: string | null, parentPath: string | null) => {
+    nodes.forEach((item, i) => {
+      const key = accessors.getKey?.(item) ?? getPositionKey(parentKey, i);
+      const name = accessors.getName(item);
+      const path = parentPath === null ? name : parentPath + PATH_SEPARATOR + name;
+      entries.push({
+        key,
+        parentKey,
+        name,
+        path,
+        fields: { [PATH_FIELD]: path, ...accessors.getFields?.(item) },
+        alternativeNames: accessors.getAlternativeNames?.(item) ?? [],
+      });
+      const children = accessors.getChildren(item);
+      if (children) visit(children, key, path);
+    });
+  };
+  visit(items, null, null);
+  return entries;
+};
+
+// Folds every text of the entries up front so queries only fold what the user typed
+export const buildSearchIndex = (entries: SearchIndexEntry[], locale?: string): SearchIndex => {
+  const parents = new Map<string, string | null>();
+  const foldCache = new Map<string, FoldedText>();
+  const fold = (text: string) => {
+    if (!foldCache.has(text)) foldCache.set(text, foldText(text, locale));
+  };
+  entries.forEach((entry) => {
+    parents.set(entry.key, entry.parentKey);
+    fold(entry.name);
+    Object.values(entry.fields).forEach(fold);
+    entry.alternativeNames.forEach(fold);
+  });
+  return { entries, parents, foldCache };
+};
+
+const isLiteralNarrowing = (previous: string, next: string, locale?: string) =>
+  foldText(next, locale).text.includes(foldText(previous, locale).text);
+
+// Whether every match of `next` is also a match of `previous`, so `next` only needs to test
+// those. Holds when clauses are only added or lengthened; not for fuzzy matching, negations
+// or aliases, whose matches can grow as the query does.
+export const canNarrowSearch = (
+  previous: ParsedSearchQuery,
+  next: ParsedSearchQuery,
+  { fuzzy = false, locale, exactFields = [] }: SearchQueryOptions = {}
+): boolean => {
+  if (fuzzy || next.clauses.length < previous.clauses.length) return false;
+  const isPlain = (query: ParsedSearchQuery) => query.clauses.every((clause) => !clause.negated && !clause.synonyms);
+  if (!isPlain(previous) || !isPlain(next)) return false;
+  return previous.clauses.every((clause, i) => {
+    const nextClause = next.clauses[i];
+    if (nextClause.field !== clause.field || nextClause.phrase !== clause.phrase) return false;
+    if (clause.field && exactFields.includes(clause.field)) return nextClause.value === clause.value;
+    return isLiteralNarrowing(clause.value, nextClause.value, locale);
+  });
+};
+
+const waitForNextChunk = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Evaluates the query against the index in chunks, yielding between them so a newer query
+// can take over. Resolves to null when the search went stale.
+export const runSearch = async (
+  index: SearchIndex,
+  query: ParsedSearchQuery,
+  options: SearchQueryOptions = {},
+  { candidates, isStale, chunkSize = DEFAULT_CHUNK_SIZE }: SearchRunOptions = {}
+): Promise<SearchIndexResult | null> => {
+  const matches: Record<string, IndexedMatch> = {};
+  const matchKeys: string[] = [];
+  const ancestors: Record<string, number> = {};
+  const matchOptions = { ...options, foldCache: index.foldCache };
+
+  for (let start = 0; start < index.entries.length; start += chunkSize) {
+    if (start > 0) {
+      await waitForNextChunk();
+      if (isStale?.()) return null;
+    }
+    index.entries.slice(start, start + chunkSize).forEach((entry) => {
+      if (candidates && !candidates.has(entry.key)) return;
+      const match = evaluateSearchQuery(
+        query,
+        (field) => (field === null ? entry.name : entry.fields[field] ?? entry.name),
+        matchOptions,
+        entry.alternativeNames
+      );
+      if (match) {
+        matches[entry.key] = { ...match, name: entry.name, path: entry.path };
+        matchKeys.push(entry.key);
+      }
+    });
+  }
+
+  matchKeys.forEach((key) => {
+    const score = matches[key].score;
+    let parentKey = index.parents.get(key) ?? null;
+    while (parentKey !== null && (ancestors[parentKey] ?? -1) < score) {
+      ancestors[parentKey] = score;
+      parentKey = index.parents.get(parentKey) ?? null;
+    }
+  });
+
+  return { matches, matchKeys, ancestors };
+};
+
+export interface SearchSession {
+  search: (query: ParsedSearchQuery, options?: SearchQueryOptions, isStale?: () => boolean) => Promise<SearchIndexResult | null>;
+}
+
+// Every option changes which nodes match, so narrowing needs all of them unchanged
+const isSameSearchOptions = (a: SearchQueryOptions, b: SearchQueryOptions) => {
+  const aExact = a.exactFields ?? [];
+  const bExact = b.exactFields ?? [];
+  return (
+    (a.fuzzy ?? false) === (b.fuzzy ?? false) &&
+    a.locale === b.locale &&
+    aExact.length === bExact.length &&
+    aExact.every((field) => bExact.includes(field))
+  );
+};
+
+// Runs queries against one index, narrowing from the last completed query where it can
+export const createSearchSession = (index: SearchIndex): SearchSession => {
+  let last: { query: ParsedSearchQuery; options: SearchQueryOptions; keys: Set<string> } | null = null;
+
+  const search: SearchSession['search'] = async (query, options = {}, isStale) => {
+    const candidates =
+      last && isSameSearchOptions(last.options, options) && canNarrowSearch(last.query, query, options)
+        ? last.keys
+        : undefined;
+    const result = await runSearch(index, query, options, { candidates, isStale });
+    if (result) last = { query, options, keys: new Set(result.matchKeys) };
+    return result;
+  };
+
+  return { search };
+};
@@ -0,0 +1,32 @@
+import { SearchSession, buildSearchIndex, createSearchSession } from './search-index';
+import { SearchWorkerRequest, SearchWorkerResponse } from './search-index-client';
+
+// Worker side of SearchIndexClient: holds the index and answers searches. A search still
+// running when a newer one arrives stops at its next chunk.
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<SearchWorkerRequest>) => void) | null;
+  postMessage: (response: SearchWorkerResponse) => void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+
+let session: SearchSession = createSearchSession(buildSearchIndex([]));
+let latestId = 0;
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  if (request.type === 'index') {
+    session = createSearchSession(buildSearchIndex(request.entries, request.locale));
+    return;
+  }
+  if (request.type === 'cancel') {
+    latestId = 0;
+    return;
+  }
+
+  const { id, query, options } = request;
+  latestId = id;
+  session
+    .search(query, options, () => id !== latestId)
+    .then((result) => scope.postMessage({ id, result }));
+};
@@ -0,0 +1,41 @@
+import { applySynonyms, evaluateSearchQuery, parseSearchQuery } from './search-query';
+
+test('parses phrases, negation and field qualifiers', () => {
+  const { clauses, errors } = parseSearchQuery('drinks -"hot drinks" id:101 group:"Western Europe"', ['id', 'group']);
+  expect(errors).toEqual([]);
+  expect(clauses).toEqual([
+    { field: null, value: 'drinks', negated: false, phrase: false },
+    { field: null, value: 'hot drinks', negated: true, phrase: true },
+    { field: 'id', value: '101', negated: false, phrase: false },
+    { field: 'group', value: 'Western Europe', negated: false, phrase: true },
+  ]);
+});
+
+test('reports unknown fields, missing values and open quotes', () => {
+  expect(parseSearchQuery('colour:red', ['id']).errors).toEqual(['Unknown field "colour:". Use one of: name, id']);
+  expect(parseSearchQuery('id:', ['id']).errors).toEqual(['Missing value after "id:"']);
+  expect(parseSearchQuery('"soft drinks', []).errors).toHaveLength(1);
+});
+
+test('every clause must hold and exact fields compare whole values', () => {
+  const fields: Record<string, string> = { id: '101', group: 'Europe Western Europe' };
+  const getText = (field: string | null) => (field ? fields[field] : 'Portugal');
+  const query = (input: string) =>
+    evaluateSearchQuery(parseSearchQuery(input, ['id', 'group']), getText, { exactFields: ['id'] });
+
+  expect(query('port group:western')?.ranges).toEqual([{ start: 0, end: 4 }]);
+  expect(query('id:10')).toBeNull();
+  expect(query('id:101 -port')).toBeNull();
+});
+
+test('aliases match canonical names and alternative names', () => {
+  const dictionary = { holland: ['Netherlands'], 'fizzy drinks': ['Carbonates'] };
+  const search = (input: string, name: string, alternativeNames: string[] = []) =>
+    evaluateSearchQuery(applySynonyms(parseSearchQuery(input), dictionary), () => name, {}, alternativeNames);
+
+  expect(search('Holland', 'Netherlands')?.alias).toBe('Holland');
+  expect(search('fizzy drinks', 'Carbonates')?.alias).toBe('fizzy drinks');
+  expect(search('burma', 'Myanmar', ['Burma'])?.alias).toBe('Burma');
+  expect(search('nether', 'Netherlands')?.alias).toBeNull();
+  expect(search('holland', 'Belgium')).toBeNull();
+});
@@ -0,0 +1,188 @@
+import { MatchRange, TextMatch, TextMatchOptions, matchText, mergeRanges } from './text-match';
+import { foldText } from './text-folding';
+import { SynonymDictionary } from '../../models/hierarchy-data-provider';
+
+// One condition of a query: `drinks`, `"soft drinks"`, `-juice`, `id:101`, `group:"Western Europe"`
+export interface SearchClause {
+  // Qualifier as typed (lower-cased), null for the default field
+  field: string | null;
+  value: string;
+  negated: boolean;
+  // Quoted values match literally, never fuzzily
+  phrase: boolean;
+  // Canonical names the value is an alias for (see applySynonyms)
+  synonyms?: string[];
+}
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[];
+  // Problems to show the user; a query with errors should not be run
+  errors: string[];
+}
+
+export interface SearchQueryOptions extends TextMatchOptions {
+  // Fields compared as a whole value, e.g. ids: `id:10` must not match 101
+  exactFields?: string[];
+}
+
+// Returns the text of a field for the item being tested; null is the default field
+export type SearchFieldText = (field: string | null) => string;
+
+export interface QueryMatch extends TextMatch {
+  // Set when the item matched through an alias instead of its name: the item's alternative
+  // name that matched, or the alias the user typed
+  alias: string | null;
+}
+
+// Aliases rank just below a literal name match
+const ALIAS_SCORE_FACTOR = 0.95;
+
+// Field qualifier that always means the default field
+export const DEFAULT_FIELD_ALIAS = 'name';
+
+const FIELD_PATTERN = /^[a-z][\w-]*$/i;
+
+const isDefaultField = (field: string | null) => field === null || field === DEFAULT_FIELD_ALIAS;
+
+// Splits a query into clauses. Terms are ANDed; `-` negates a term, quotes keep a phrase
+// together and `field:value` searches a named field. Without `fields` any qualifier is
+// accepted, which is enough for highlighting an already validated query.
+export const parseSearchQuery = (input: string, fields?: string[]): ParsedSearchQuery => {
+  const clauses: SearchClause[] = [];
+  const errors: string[] = [];
+  const knownFields = fields?.map((field) => field.toLowerCase());
+  let i = 0;
+
+  const readValue = (): { value: string; phrase: boolean } | null => {
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push(`Missing closing quote after "${input.slice(i + 1)}`);
+        i = input.length;
+        return null;
+      }
+      const value = input.slice(i + 1, close);
+      i = close + 1;
+      return { value, phrase: true };
+    }
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    return { value: input.slice(start, i), phrase: false };
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const negated = input[i] === '-';
+    if (negated) i++;
+
+    let field: string | null = null;
+    const colon = input.slice(i).search(/[\s:"]/);
+    if (colon > 0 && input[i + colon] === ':' && FIELD_PATTERN.test(input.slice(i, i + colon))) {
+      field = input.slice(i, i + colon).toLowerCase();
+      i += colon + 1;
+      if (knownFields && !isDefaultField(field) && !knownFields.includes(field)) {
+        const available = [DEFAULT_FIELD_ALIAS, ...knownFields].join(', ');
+        errors.push(`Unknown field "${field}:". Use one of: ${available}`);
+      }
+    }
+
+    const read = readValue();
+    if (!read) break;
+    if (read.value.trim().length === 0) {
+      if (field) errors.push(`Missing value after "${field}:"`);
+      continue;
+    }
+    clauses.push({ field: isDefaultField(field) ? null : field, value: read.value, negated, phrase: read.phrase });
+  }
+
+  return { clauses, errors };
+};
+
+// Marks default-field values that are aliases in the dictionary. Several plain terms that
+// together form an alias ("fizzy drinks") become a single clause.
+export const applySynonyms = (
+  query: ParsedSearchQuery,
+  dictionary: SynonymDictionary,
+  locale?: string
+): ParsedSearchQuery => {
+  const lookup = new Map(Object.entries(dictionary).map(([alias, names]) => [foldText(alias.trim(), locale).text, names]));
+  if (lookup.size === 0) return query;
+  const find = (value: string) => lookup.get(foldText(value.trim(), locale).text);
+
+  const terms = query.clauses.filter((clause) => clause.field === null && !clause.negated && !clause.phrase);
+  const combined = terms.length > 1 ? find(terms.map((clause) => clause.value).join(' ')) : undefined;
+  if (combined) {
+    const value = terms.map((clause) => clause.value).join(' ');
+    const others = query.clauses.filter((clause) => !terms.includes(clause));
+    return { ...query, clauses: [{ field: null, value, negated: false, phrase: false, synonyms: combined }, ...others] };
+  }
+
+  return {
+    ...query,
+    clauses: query.clauses.map((clause) => {
+      const synonyms = clause.field === null ? find(clause.value) : undefined;
+      return synonyms ? { ...clause, synonyms } : clause;
+    }),
+  };
+};
+
+const matchClause = (
+  clause: SearchClause,
+  text: string,
+  { fuzzy = false, locale, exactFields = [], foldCache }: SearchQueryOptions,
+  alternativeNames: string[] = []
+): QueryMatch | null => {
+  if (clause.field && exactFields.includes(clause.field)) {
+    return foldText(text.trim(), locale).text === foldText(clause.value.trim(), locale).text
+      ? { score: 1, ranges: [{ start: 0, end: text.length }], alias: null }
+      : null;
+  }
+  const match = matchText(clause.value, text, { fuzzy: fuzzy && !clause.phrase, locale, foldCache });
+  if (match || clause.field !== null) return match && { ...match, alias: null };
+
+  // The name of a node the value is an alias for
+  for (const synonym of clause.synonyms ?? []) {
+    const synonymMatch = matchText(synonym, text, { locale, foldCache });
+    if (synonymMatch) return { score: synonymMatch.score * ALIAS_SCORE_FACTOR, ranges: [], alias: clause.value };
+  }
+  // One of the item's own alternative names
+  for (const alternativeName of alternativeNames) {
+    const alternativeMatch = matchText(clause.value, alternativeName, { fuzzy: fuzzy && !clause.phrase, locale, foldCache });
+    if (alternativeMatch) return { score: alternativeMatch.score * ALIAS_SCORE_FACTOR, ranges: [], alias: alternativeName };
+  }
+  return null;
+};
+
+// Whether an item satisfies every clause. The score averages the positive clauses; the
+// ranges are those found in the default field, for highlighting. Default-field clauses also
+// match the item's alternative names.
+export const evaluateSearchQuery = (
+  query: ParsedSearchQuery,
+  getText: SearchFieldText,
+  options: SearchQueryOptions = {},
+  alternativeNames: string[] = []
+): QueryMatch | null => {
+  const scores: number[] = [];
+  const ranges: MatchRange[] = [];
+  let alias: string | null = null;
+
+  for (const clause of query.clauses) {
+    const match = matchClause(clause, getText(clause.field), options, alternativeNames);
+    if (clause.negated ? match !== null : match === null) return null;
+    if (match && !clause.negated) {
+      scores.push(match.score);
+      if (clause.field === null) ranges.push(...match.ranges);
+      alias = alias ?? match.alias;
+    }
+  }
+
+  return {
+    score: scores.length > 0 ? scores.reduce((total, score) => total + score, 0) / scores.length : 1,
+    ranges: mergeRanges(ranges),
+    alias,
+  };
+};
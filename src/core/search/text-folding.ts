@@ -0,0 +1,51 @@
+import type { MatchRange } from './text-match';
+
+// Text reduced for comparison, with the position in the original of every folded character
+export interface FoldedText {
+  text: string;
+  indices: number[];
+}
+
+// Letters that do not decompose into a base letter plus marks
+const SPECIAL_FOLDS: Record<string, string> = {
+  'ß': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'đ': 'd',
+  'ð': 'd',
+  'ł': 'l',
+  'ı': 'i',
+  'þ': 'th',
+  '‘': "'",
+  '’': "'",
+  'ʼ': "'",
+};
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// Case- and accent-insensitive form: "Côte d’Ivoire" -> "cote d'ivoire", "São Tomé" -> "sao tome".
+// Case folding follows the locale, so Turkish "İ" becomes "i".
+export const foldText = (text: string, locale?: string): FoldedText => {
+  let folded = '';
+  const indices: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const lower = text[i].toLocaleLowerCase(locale);
+    const base = SPECIAL_FOLDS[lower] ?? lower.normalize('NFD').replace(COMBINING_MARKS, '');
+    for (let j = 0; j < base.length; j++) {
+      folded += base[j];
+      indices.push(i);
+    }
+  }
+  return { text: folded, indices };
+};
+
+// Maps ranges over the folded text back onto the original characters. Marks that folded
+// away (e.g. a decomposed accent) stay with the letter they follow.
+export const toOriginalRanges = (ranges: MatchRange[], folded: FoldedText, originalLength: number): MatchRange[] =>
+  ranges.map(({ start, end }) => {
+    const last = folded.indices[end - 1] + 1;
+    const next = end < folded.indices.length ? folded.indices[end] : originalLength;
+    // A range ending inside an expansion ("ß" -> "ss") still covers that character
+    return { start: folded.indices[start], end: Math.max(last, next) };
+  });
@@ -0,0 +1,37 @@
+import { matchText } from './text-match';
+
+test('plain matching finds every literal occurrence', () => {
+  expect(matchText('an', 'Andorra and Angola')?.ranges).toEqual([
+    { start: 0, end: 2 },
+    { start: 8, end: 10 },
+    { start: 12, end: 14 },
+  ]);
+  expect(matchText('germny', 'Germany')).toBeNull();
+});
+
+test('fuzzy matching tolerates typos and highlights the matched letters', () => {
+  const match = matchText('germny', 'Germany', { fuzzy: true });
+  expect(match?.ranges).toEqual([
+    { start: 0, end: 4 },
+    { start: 5, end: 7 },
+  ]);
+  expect(matchText('soft drnks', 'Soft Drinks', { fuzzy: true })).not.toBeNull();
+  expect(matchText('xyz', 'Germany', { fuzzy: true })).toBeNull();
+});
+
+test('literal matches rank above fuzzy ones', () => {
+  const exact = matchText('spain', 'Spain', { fuzzy: true })!;
+  const prefix = matchText('spa', 'Spain', { fuzzy: true })!;
+  const fuzzy = matchText('spein', 'Spain', { fuzzy: true })!;
+  expect(exact.score).toBeGreaterThan(prefix.score);
+  expect(prefix.score).toBeGreaterThan(fuzzy.score);
+});
+
+test('accents and case are ignored, highlights map back to the original text', () => {
+  expect(matchText("cote d'ivoire", 'Côte d’Ivoire')?.ranges).toEqual([{ start: 0, end: 13 }]);
+  expect(matchText('sao tome', 'São Tomé')?.ranges).toEqual([{ start: 0, end: 8 }]);
+  // Decomposed accents stay with their letter; expansions map to the character they came from
+  expect(matchText('curacao', 'Curac\u0327ao')?.ranges).toEqual([{ start: 0, end: 8 }]);
+  expect(matchText('strasse', 'Straße')?.ranges).toEqual([{ start: 0, end: 6 }]);
+  expect(matchText('istanbul', 'İstanbul', { locale: 'tr' })).not.toBeNull();
+});
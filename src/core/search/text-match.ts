@@ -0,0 +1,154 @@
+import { getAlignedIndices, levenshteinDistance } from '../utils/string-distance';
+import { FoldedText, foldText, toOriginalRanges } from './text-folding';
+
+// Half-open range of matched characters in the searched text
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface TextMatch {
+  // 0..1, higher is more relevant
+  score: number;
+  ranges: MatchRange[];
+}
+
+export interface TextMatchOptions {
+  // Tolerate typos: each query word may match a word of the text within a small edit distance
+  fuzzy?: boolean;
+  // Locale for case folding, e.g. 'tr'; defaults to the browser's
+  locale?: string;
+  // Folded texts to reuse between calls, keyed by original text; only valid for one locale
+  foldCache?: Map<string, FoldedText>;
+}
+
+// Shorter words are too ambiguous to match with typos
+const MIN_FUZZY_LENGTH = 3;
+const WORD_PATTERN = /[^\s\-/,&()]+/g;
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.9;
+const SUBSTRING_SCORE = 0.8;
+// A fuzzy match scores below any literal match, less for every edit
+const FUZZY_SCORE = 0.6;
+
+// Every occurrence of needle in haystack, both already folded
+const findOccurrences = (haystack: string, needle: string): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  let start = haystack.indexOf(needle);
+  while (needle.length > 0 && start !== -1) {
+    ranges.push({ start, end: start + needle.length });
+    start = haystack.indexOf(needle, start + needle.length);
+  }
+  return ranges;
+};
+
+const toRanges = (indices: number[], offset: number): MatchRange[] =>
+  indices.reduce<MatchRange[]>((ranges, index) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === offset + index) {
+      last.end += 1;
+    } else {
+      ranges.push({ start: offset + index, end: offset + index + 1 });
+    }
+    return ranges;
+  }, []);
+
+// Sorted, non-overlapping
+export const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+const literalScore = (text: string, query: string, ranges: MatchRange[]) => {
+  if (text === query) return EXACT_SCORE;
+  return ranges[0].start === 0 ? PREFIX_SCORE : SUBSTRING_SCORE;
+};
+
+// Best match of one query word against the words of the (folded) text
+const matchTerm = (term: string, words: { word: string; start: number }[]): TextMatch | null => {
+  let best: TextMatch | null = null;
+  const maxDistance = Math.max(1, Math.floor(term.length / 4));
+
+  words.forEach(({ word, start }) => {
+    const position = word.indexOf(term);
+    if (position !== -1) {
+      const score = position === 0 ? PREFIX_SCORE : SUBSTRING_SCORE;
+      if (!best || score > best.score) {
+        best = { score, ranges: [{ start: start + position, end: start + position + term.length }] };
+      }
+      return;
+    }
+    if (term.length < MIN_FUZZY_LENGTH) return;
+
+    // The whole word, or its start while the user is still typing it
+    const candidates = [word, word.slice(0, term.length), word.slice(0, term.length + 1)];
+    candidates.forEach((candidate) => {
+      const distance = levenshteinDistance(term, candidate, maxDistance);
+      if (distance > maxDistance) return;
+      const score = FUZZY_SCORE * (1 - distance / (term.length + 1));
+      if (!best || score > best.score) {
+        best = { score, ranges: toRanges(getAlignedIndices(term, candidate), start) };
+      }
+    });
+  });
+  return best;
+};
+
+const foldCached = (text: string, locale?: string, cache?: Map<string, FoldedText>): FoldedText => {
+  let folded = cache?.get(text);
+  if (!folded) {
+    folded = foldText(text, locale);
+    cache?.set(text, folded);
+  }
+  return folded;
+};
+
+// Where and how well query matches text. Plain matching is a case- and accent-insensitive
+// substring test; fuzzy matching falls back to matching each query word on its own, allowing
+// a typo roughly every four characters. Ranges refer to the original text. Returns null when
+// the text does not match.
+export const matchText = (
+  query: string,
+  text: string,
+  { fuzzy = false, locale, foldCache }: TextMatchOptions = {}
+): TextMatch | null => {
+  const normalizedQuery = foldText(query.trim(), locale).text;
+  const folded = foldCached(text, locale, foldCache);
+  const normalizedText = folded.text;
+  if (normalizedQuery.length === 0) return null;
+
+  const occurrences = findOccurrences(normalizedText, normalizedQuery);
+  if (occurrences.length > 0) {
+    return {
+      score: literalScore(normalizedText, normalizedQuery, occurrences),
+      ranges: toOriginalRanges(occurrences, folded, text.length),
+    };
+  }
+  if (!fuzzy) return null;
+
+  const words: { word: string; start: number }[] = [];
+  let found: RegExpExecArray | null;
+  WORD_PATTERN.lastIndex = 0;
+  while ((found = WORD_PATTERN.exec(normalizedText)) !== null) {
+    words.push({ word: found[0], start: found.index });
+  }
+
+  const terms = normalizedQuery.split(/\s+/);
+  const termMatches = terms.map((term) => matchTerm(term, words));
+  if (termMatches.some((match) => match === null)) return null;
+
+  const matches = termMatches as TextMatch[];
+  return {
+    score: matches.reduce((total, match) => total + match.score, 0) / matches.length,
+    ranges: toOriginalRanges(mergeRanges(matches.flatMap((match) => match.ranges)), folded, text.length),
+  };
+};
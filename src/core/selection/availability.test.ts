@@ -0,0 +1,85 @@
+import { CategoryRow, GeographyRow, buildCategoryTree, buildGeographyTree } from '../utils/tree-builder';
+import { withNodeChildren } from '../utils/tree-node-utils';
+import { createAvailabilityCheck, findEmptyCombinations, indexAvailabilityMatrix } from './availability';
+
+const row = (geographyID: number, geographyName: string, parentGeographyID: number | null): GeographyRow => ({
+  geographyID,
+  geographyName,
+  parentGeographyID,
+  isEnabled: true,
+  canSelectSubGeographies: true,
+  level1Group: 'Europe',
+  level2Group: null,
+});
+
+const category = (productID: number, productName: string, parentProductID: number | null): CategoryRow => ({
+  productID,
+  productName,
+  parentProductID,
+  categoryID: productID,
+  isEnabled: true,
+  canSelectsubcategories: true,
+  level1Group: 'Drinks',
+  level2Group: null,
+});
+
+const { roots: categories } = buildCategoryTree([
+  category(1, 'Drinks', null),
+  category(10, 'Soft Drinks', 1),
+  category(101, 'Carbonates', 10),
+  category(102, 'Juice', 10),
+  category(103, 'Other', 10),
+  category(20, 'Hot Drinks', 1),
+  category(201, 'Coffee', 20),
+  category(202, 'Tea', 20),
+  category(203, 'Other', 20),
+]);
+
+const { roots: geographies } = buildGeographyTree([
+  row(1, 'Europe', null),
+  row(10, 'Western Europe', 1),
+  row(101, 'Portugal', 10),
+  row(102, 'Spain', 10),
+  row(20, 'Eastern Europe', 1),
+  row(201, 'Poland', 20),
+]);
+
+// Soft Drinks in Western Europe, Coffee in Poland
+const matrix = indexAvailabilityMatrix({ '10': ['10'], '201': ['201'] });
+const check = createAvailabilityCheck(matrix, { category: categories, geography: geographies });
+
+test('a pair has data when an entry sits at, above or below both nodes', () => {
+  expect(check.hasData('102', '101')).toBe(true);
+  expect(check.hasData('10', '10')).toBe(true);
+  expect(check.hasData('1', '1')).toBe(true);
+  expect(check.hasData('102', '201')).toBe(false);
+  expect(check.hasData('202', '201')).toBe(false);
+});
+
+test('finds the loaded nodes without data for the other selection', () => {
+  expect(Array.from(check.findUnavailableKeys('category', ['201'])).sort()).toEqual(['10', '101', '102', '103', '202', '203']);
+  expect(Array.from(check.findUnavailableKeys('geography', ['+20', '!202'])).sort()).toEqual(['10', '101', '102']);
+  expect(check.findUnavailableKeys('geography', [])).toEqual(new Set());
+});
+
+test('reuses the result while the other selection is unchanged', () => {
+  const tokens = ['101'];
+  const first = check.findUnavailableKeys('category', tokens);
+  expect(check.findUnavailableKeys('category', tokens)).toBe(first);
+  expect(check.findUnavailableKeys('category', ['101'])).not.toBe(first);
+});
+
+test('nodes whose children are not loaded count as having data', () => {
+  const lazyGeographies = [{ ...withNodeChildren(geographies[0], []), hasChildren: true }];
+  const lazyCheck = createAvailabilityCheck(matrix, { category: categories, geography: lazyGeographies });
+
+  expect(lazyCheck.hasData('202', '1')).toBe(true);
+  expect(lazyCheck.findUnavailableKeys('category', ['1'])).toEqual(new Set());
+});
+
+test('lists chosen pairs without data', () => {
+  expect(findEmptyCombinations(['102', '201'], ['101', '201'], check)).toEqual([
+    { categoryKey: '102', geographyKey: '201' },
+    { categoryKey: '201', geographyKey: '101' },
+  ]);
+});
@@ -0,0 +1,150 @@
+import { AvailabilityMatrix } from '../../models/availability';
+import { HierarchyType } from '../../models/hierarchy-data-provider';
+import {
+  TreeNodeType,
+  getNodeKey,
+  hasUnloadedChildren,
+  indexNodesByKey,
+  indexParentsByKey,
+} from '../utils/tree-node-utils';
+import { isExclusionRule, parseSelectionToken } from './selection-rules';
+
+// Whether category/geography pairs have data, over the loaded trees
+export interface AvailabilityCheck {
+  // Whether an extraction over the pair returns any data
+  hasData: (categoryKey: string, geographyKey: string) => boolean;
+  // Loaded nodes of `type` without data for any of the keys chosen in the other hierarchy.
+  // Empty while nothing is chosen there. The last result per type is reused while the
+  // tokens are unchanged.
+  findUnavailableKeys: (type: HierarchyType, otherTokens: string[]) => Set<string>;
+}
+
+export interface EmptyCombination {
+  categoryKey: string;
+  geographyKey: string;
+}
+
+// The matrix keyed from both sides: entry key -> entry keys of the other hierarchy
+export type AvailabilityMatrixIndex = Record<HierarchyType, Map<string, string[]>>;
+
+export const indexAvailabilityMatrix = (matrix: AvailabilityMatrix): AvailabilityMatrixIndex => {
+  const category = new Map(Object.entries(matrix));
+  const geography = new Map<string, string[]>();
+  category.forEach((geographyKeys, categoryKey) => {
+    geographyKeys.forEach((geographyKey) => {
+      geography.set(geographyKey, [...(geography.get(geographyKey) ?? []), categoryKey]);
+    });
+  });
+  return { category, geography };
+};
+
+// Key plus the keys of its loaded ancestors
+const createPathLookup = (nodes: TreeNodeType[]) => {
+  const parents = indexParentsByKey(nodes);
+  const cache = new Map<string, Set<string>>();
+  return (key: string): Set<string> => {
+    let path = cache.get(key);
+    if (!path) {
+      path = new Set([key]);
+      let parent = parents.get(key);
+      while (parent) {
+        path.add(getNodeKey(parent));
+        parent = parents.get(getNodeKey(parent));
+      }
+      cache.set(key, path);
+    }
+    return path;
+  };
+};
+
+// Keys the tokens include; exclusions only narrow an include, so they are left out
+const getIncludedKeys = (tokens: string[]) =>
+  tokens
+    .map(parseSelectionToken)
+    .filter((rule) => !isExclusionRule(rule))
+    .map((rule) => rule.key);
+
+const OTHER_HIERARCHY: Record<HierarchyType, HierarchyType> = { category: 'geography', geography: 'category' };
+
+// A pair has data when some matrix entry sits on the same branch in both hierarchies: at the
+// node, above it (the entry covers its subtree) or below it (part of the node has data).
+// Nodes whose children are not loaded yet count as having data, since the entry may sit below.
+export const createAvailabilityCheck = (
+  matrix: AvailabilityMatrixIndex,
+  nodes: Record<HierarchyType, TreeNodeType[]>
+): AvailabilityCheck => {
+  const trees = {
+    category: { path: createPathLookup(nodes.category), index: indexNodesByKey(nodes.category) },
+    geography: { path: createPathLookup(nodes.geography), index: indexNodesByKey(nodes.geography) },
+  };
+
+  const onSameBranch = (type: HierarchyType, key: string, entryKey: string) =>
+    trees[type].path(key).has(entryKey) || trees[type].path(entryKey).has(key);
+  const isUnresolved = (type: HierarchyType, key: string) => {
+    const node = trees[type].index.get(key);
+    return !!node && hasUnloadedChildren(node);
+  };
+
+  const hasData: AvailabilityCheck['hasData'] = (categoryKey, geographyKey) => {
+    if (isUnresolved('category', categoryKey) || isUnresolved('geography', geographyKey)) return true;
+    return Array.from(matrix.category).some(
+      ([entryCategory, entryGeographies]) =>
+        onSameBranch('category', categoryKey, entryCategory) &&
+        entryGeographies.some((entryGeography) => onSameBranch('geography', geographyKey, entryGeography))
+    );
+  };
+
+  // Entries of `type` with data for one of the chosen keys, then every loaded node on the
+  // same branch as one of those entries: one pass over the entries and one over the nodes
+  const computeUnavailableKeys = (type: HierarchyType, otherTokens: string[]): Set<string> => {
+    const other = OTHER_HIERARCHY[type];
+    const chosen = getIncludedKeys(otherTokens);
+    const unavailable = new Set<string>();
+    if (chosen.length === 0 || chosen.some((key) => isUnresolved(other, key))) return unavailable;
+
+    const chosenSet = new Set(chosen);
+    const aboveChosen = new Set(chosen.flatMap((key) => Array.from(trees[other].path(key))));
+    const isOnChosenBranch = (entryKey: string) =>
+      aboveChosen.has(entryKey) || Array.from(trees[other].path(entryKey)).some((key) => chosenSet.has(key));
+
+    const entries = new Set<string>();
+    matrix[type].forEach((otherEntries, entryKey) => {
+      if (otherEntries.some(isOnChosenBranch)) entries.add(entryKey);
+    });
+    const aboveEntries = new Set(Array.from(entries).flatMap((key) => Array.from(trees[type].path(key))));
+
+    trees[type].index.forEach((_node, key) => {
+      const hasEntry =
+        aboveEntries.has(key) ||
+        isUnresolved(type, key) ||
+        Array.from(trees[type].path(key)).some((pathKey) => entries.has(pathKey));
+      if (!hasEntry) unavailable.add(key);
+    });
+    return unavailable;
+  };
+
+  const lastResults: Partial<Record<HierarchyType, { tokens: string[]; keys: Set<string> }>> = {};
+  const findUnavailableKeys: AvailabilityCheck['findUnavailableKeys'] = (type, otherTokens) => {
+    const last = lastResults[type];
+    if (last && last.tokens === otherTokens) return last.keys;
+    const keys = computeUnavailableKeys(type, otherTokens);
+    lastResults[type] = { tokens: otherTokens, keys };
+    return keys;
+  };
+
+  return { hasData, findUnavailableKeys };
+};
+
+// Chosen category/geography pairs that will come back empty
+export const findEmptyCombinations = (
+  categoryTokens: string[],
+  geographyTokens: string[],
+  check: AvailabilityCheck
+): EmptyCombination[] => {
+  const geographyKeys = getIncludedKeys(geographyTokens);
+  return getIncludedKeys(categoryTokens).flatMap((categoryKey) =>
+    geographyKeys
+      .filter((geographyKey) => !check.hasData(categoryKey, geographyKey))
+      .map((geographyKey) => ({ categoryKey, geographyKey }))
+  );
+};
@@ -0,0 +1,71 @@
+import { TreeNodeType, getNodeKey, indexNodesByKey } from '../utils/tree-node-utils';
+import { SelectionMode, getSelectionTargets } from './selection-modes';
+
+// Business grouping carried on every node (e.g. "Europe" / "Western Europe"). Level 2 groups
+// are listed under the level 1 group of their nodes.
+export interface LevelGroup {
+  id: string;
+  level: 1 | 2;
+  name: string;
+  // Level 2 groups only: the level 1 group they belong to, '' when the nodes have none
+  parentName: string;
+  // Loaded nodes carrying the group, in tree order; they may sit under different roots
+  keys: string[];
+  children: LevelGroup[];
+}
+
+export type GroupSelectionState = 'all' | 'some' | 'none';
+
+// Distinct groups over every loaded node, level 1 groups in order of first appearance.
+// Nodes with only a level 2 group are listed under an unnamed level 1 group.
+export const collectLevelGroups = (nodes: TreeNodeType[]): LevelGroup[] => {
+  const level1 = new Map<string, LevelGroup>();
+  const level2 = new Map<string, LevelGroup>();
+
+  indexNodesByKey(nodes).forEach((node, key) => {
+    const level1Name = node.level1Group ?? '';
+    if (!node.level1Group && !node.level2Group) return;
+
+    let group = level1.get(level1Name);
+    if (!group) {
+      group = { id: `1:${level1Name}`, level: 1, name: level1Name, parentName: '', keys: [], children: [] };
+      level1.set(level1Name, group);
+    }
+    if (node.level1Group) {
+      group.keys.push(key);
+    }
+
+    if (node.level2Group) {
+      const id = `2:${level1Name}:${node.level2Group}`;
+      let subgroup = level2.get(id);
+      if (!subgroup) {
+        subgroup = { id, level: 2, name: node.level2Group, parentName: level1Name, keys: [], children: [] };
+        level2.set(id, subgroup);
+        group.children.push(subgroup);
+      }
+      subgroup.keys.push(key);
+    }
+  });
+
+  return Array.from(level1.values());
+};
+
+// Nodes a group action starts from; an unnamed level 1 group stands for its subgroups' nodes.
+// Takes the key index of the loaded nodes so callers can build it once for all groups.
+export const getGroupNodes = (group: LevelGroup, index: Map<string, TreeNodeType>): TreeNodeType[] => {
+  const keys = group.keys.length > 0 ? group.keys : group.children.flatMap((child) => child.keys);
+  return keys.map((key) => index.get(key)).filter((node): node is TreeNodeType => !!node);
+};
+
+// Whether all, some or none of the nodes a group action would select are selected; isSelected
+// comes from createSelectionEvaluator over the whole selection
+export const getGroupSelectionState = (
+  groupNodes: TreeNodeType[],
+  isSelected: (key: string) => boolean,
+  mode: SelectionMode
+): GroupSelectionState => {
+  const targetKeys = groupNodes.flatMap((node) => getSelectionTargets(node, mode).map(getNodeKey));
+  const selectedCount = targetKeys.filter(isSelected).length;
+  if (targetKeys.length === 0 || selectedCount === 0) return 'none';
+  return selectedCount === targetKeys.length ? 'all' : 'some';
+};
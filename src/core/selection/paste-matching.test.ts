@@ -0,0 +1,46 @@
+import { GeographyRow, buildGeographyTree } from '../utils/tree-builder';
+import { matchPastedEntries, splitPastedList } from './paste-matching';
+
+const row = (geographyID: number, geographyName: string, parentGeographyID: number | null): GeographyRow => ({
+  geographyID,
+  geographyName,
+  parentGeographyID,
+  isEnabled: true,
+  canSelectSubGeographies: true,
+  level1Group: null,
+  level2Group: null,
+});
+
+const { roots } = buildGeographyTree([
+  row(1, 'Europe', null),
+  row(10, 'Georgia', 1),
+  row(11, 'Côte d’Ivoire', 1),
+  row(2, 'Americas', null),
+  row(20, 'Georgia', 2),
+  row(21, 'Curaçao', 2),
+]);
+
+const summarize = (entries: string[]) =>
+  matchPastedEntries(entries, roots).map(({ status, method, candidates }) => [status, method, candidates.map((c) => c.key)]);
+
+test('splits on line breaks, commas, semicolons and tabs', () => {
+  expect(splitPastedList('Europe\r\nCuraçao, Georgia;\tEurope\n\n')).toEqual(['Europe', 'Curaçao', 'Georgia']);
+});
+
+test('matches exact names and ids before folded names', () => {
+  expect(summarize(['Curaçao', '21', 'curacao', 'COTE D\'IVOIRE', 'Georgia'])).toEqual([
+    ['matched', 'exact', ['21']],
+    ['matched', 'exact', ['21']],
+    ['matched', 'case-insensitive', ['21']],
+    ['matched', 'case-insensitive', ['11']],
+    ['ambiguous', 'exact', ['10', '20']],
+  ]);
+});
+
+test('suggests close names for typos, but not for short entries', () => {
+  expect(summarize(['Europa', 'Eu', 'Atlantis'])).toEqual([
+    ['suggested', 'fuzzy', ['1']],
+    ['unmatched', null, []],
+    ['unmatched', null, []],
+  ]);
+});
@@ -0,0 +1,89 @@
+import {
+  TreeNodeType,
+  getNodeName,
+  getNodePath,
+  indexNodesByKey,
+  indexParentsByKey,
+} from '../utils/tree-node-utils';
+import { levenshteinDistance } from '../utils/string-distance';
+import { foldText } from '../search/text-folding';
+import { getLockReason } from './selection-constraints';
+
+export type PasteMatchStatus = 'matched' | 'ambiguous' | 'suggested' | 'unmatched';
+export type PasteMatchMethod = 'exact' | 'case-insensitive' | 'fuzzy';
+
+export interface PasteCandidate {
+  key: string;
+  name: string;
+  path: string;
+  // Set when the node cannot be selected (see selection-constraints)
+  lockReason: string | null;
+}
+
+export interface PasteMatch {
+  entry: string;
+  status: PasteMatchStatus;
+  method: PasteMatchMethod | null;
+  // Best first. Fuzzy candidates are suggestions the user has to accept.
+  candidates: PasteCandidate[];
+}
+
+const MAX_SUGGESTIONS = 3;
+// Shorter entries are too ambiguous for fuzzy matching
+const MIN_FUZZY_LENGTH = 3;
+
+// Newline, comma, semicolon or tab separated; blanks and repeats are dropped
+export const splitPastedList = (text: string): string[] => {
+  const entries = text.split(/[\r\n,;\t]+/).map((entry) => entry.trim()).filter(Boolean);
+  return entries.filter((entry, index) => entries.indexOf(entry) === index);
+};
+
+// Folded like search text, so "curacao" finds "Curaçao"
+const normalize = (value: string) => foldText(value.trim()).text.replace(/\s+/g, ' ');
+
+// Resolves each entry against the loaded hierarchy: exact name or id first, then the
+// case- and accent-insensitive name, then the closest names by edit distance as suggestions
+export const matchPastedEntries = (entries: string[], nodes: TreeNodeType[]): PasteMatch[] => {
+  const index = indexNodesByKey(nodes);
+  const parents = indexParentsByKey(nodes);
+  const candidates = Array.from(index.entries()).map(([key, node]) => ({
+    key,
+    name: getNodeName(node),
+    normalizedName: normalize(getNodeName(node)),
+    path: getNodePath(node, parents),
+    lockReason: getLockReason(node),
+  }));
+  const toCandidate = ({ key, name, path, lockReason }: PasteCandidate): PasteCandidate => ({ key, name, path, lockReason });
+
+  const resolve = (found: PasteCandidate[], method: PasteMatchMethod, entry: string): PasteMatch => ({
+    entry,
+    status: found.length === 1 ? 'matched' : 'ambiguous',
+    method,
+    candidates: found.map(toCandidate),
+  });
+
+  return entries.map((entry) => {
+    const exact = candidates.filter((candidate) => candidate.key === entry || candidate.name === entry);
+    if (exact.length > 0) return resolve(exact, 'exact', entry);
+
+    const normalizedEntry = normalize(entry);
+    const caseInsensitive = candidates.filter((candidate) => candidate.normalizedName === normalizedEntry);
+    if (caseInsensitive.length > 0) return resolve(caseInsensitive, 'case-insensitive', entry);
+
+    if (normalizedEntry.length < MIN_FUZZY_LENGTH) {
+      return { entry, status: 'unmatched', method: null, candidates: [] };
+    }
+    // Allow roughly one typo per four characters
+    const maxDistance = Math.max(1, Math.floor(normalizedEntry.length / 4));
+    const suggestions = candidates
+      .map((candidate) => ({ candidate, distance: levenshteinDistance(normalizedEntry, candidate.normalizedName, maxDistance) }))
+      .filter(({ distance }) => distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance || a.candidate.name.localeCompare(b.candidate.name))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ candidate }) => toCandidate(candidate));
+
+    return suggestions.length > 0
+      ? { entry, status: 'suggested', method: 'fuzzy', candidates: suggestions }
+      : { entry, status: 'unmatched', method: null, candidates: [] };
+  });
+};
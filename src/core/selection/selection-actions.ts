@@ -0,0 +1,36 @@
+import { TreeNodeType, getNodeKey } from '../utils/tree-node-utils';
+import { getLockReason } from './selection-constraints';
+import { SelectionMode, getSelectionTargets } from './selection-modes';
+import { rollUpAncestors } from './selection-rollup';
+import { setNodesSelected, setSubtreeSelected } from './selection-rules';
+
+export interface CheckNodesOptions {
+  mode: SelectionMode;
+  // Roll selections up to parents (ignored in leaf-only mode, where parents are never stored)
+  autoSelectParents?: boolean;
+}
+
+// What ticking or unticking the checkbox of each node does to the selection tokens: locked
+// nodes are skipped, the mode decides which nodes change, and parents are rolled up if enabled.
+// Shared by the tree checkboxes and bulk entry such as the paste dialog.
+export const setNodesChecked = (
+  tokens: string[],
+  hierarchy: TreeNodeType[],
+  nodes: TreeNodeType[],
+  selected: boolean,
+  { mode, autoSelectParents = false }: CheckNodesOptions
+): string[] => {
+  let next = tokens;
+  const changedKeys: string[] = [];
+  nodes.forEach((node) => {
+    if (getLockReason(node) !== null) return;
+    const targetKeys = getSelectionTargets(node, mode).map(getNodeKey);
+    next = mode === 'cascade'
+      ? setSubtreeSelected(next, getNodeKey(node), selected, hierarchy)
+      : setNodesSelected(next, targetKeys, selected, hierarchy);
+    changedKeys.push(...targetKeys);
+  });
+  return autoSelectParents && mode !== 'leaf-only' && changedKeys.length > 0
+    ? rollUpAncestors(hierarchy, next, changedKeys)
+    : next;
+};
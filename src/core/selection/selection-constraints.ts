@@ -0,0 +1,51 @@
+import { TreeNodeType, indexNodesByKey } from '../utils/tree-node-utils';
+import { SelectionMode } from './selection-modes';
+import { isExclusionRule, parseSelectionToken } from './selection-rules';
+
+// Why a node is locked against selection, or null when it can be selected.
+// The text is shown as the tooltip of the locked checkbox.
+export const getLockReason = (node: TreeNodeType): string | null => {
+  if (!node.isEnabled) {
+    return 'Not available for extraction';
+  }
+  return null;
+};
+
+// Whether the node's own key may be stored in a selection under the given mode
+export const canStoreSelection = (node: TreeNodeType, mode: SelectionMode): boolean => {
+  if (getLockReason(node) !== null) {
+    return false;
+  }
+  return mode !== 'leaf-only' || node.isLowestLevel;
+};
+
+export interface SelectionConstraintResult {
+  allowed: string[];
+  rejected: { key: string; reason: string }[];
+}
+
+// Splits incoming selection tokens (props, events, imports) into those the rules accept and
+// those they refuse. Exclusions are always accepted; subtree rules only need an unlocked node
+// because they may select leaves below a branch. Nodes that are not loaded cannot be checked
+// yet and are let through.
+export const applySelectionConstraints = (
+  tokens: string[],
+  nodes: TreeNodeType[],
+  mode: SelectionMode
+): SelectionConstraintResult => {
+  const index = indexNodesByKey(nodes);
+  const result: SelectionConstraintResult = { allowed: [], rejected: [] };
+  tokens.forEach((token) => {
+    const rule = parseSelectionToken(token);
+    const node = index.get(rule.key);
+    const lockReason = node ? getLockReason(node) : null;
+    if (!node || isExclusionRule(rule)) {
+      result.allowed.push(token);
+    } else if (rule.kind === 'subtree' ? lockReason === null : canStoreSelection(node, mode)) {
+      result.allowed.push(token);
+    } else {
+      result.rejected.push({ key: token, reason: lockReason ?? 'Only lowest-level items can be selected' });
+    }
+  });
+  return result;
+};
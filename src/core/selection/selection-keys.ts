@@ -0,0 +1,58 @@
+import { TreeNodeType, getNodeName, indexNodesByKey } from '../utils/tree-node-utils';
+
+export interface SelectionMigration {
+  keys: string[];
+  // Legacy display names that were rewritten to node keys
+  migrated: { name: string; keys: string[] }[];
+}
+
+// Selections used to be display names. Rewrites any entry that is not a known key but
+// matches a node name into that node's key; a name shared by several nodes maps to all
+// of them, which is what the name-based tree showed. Unknown entries are kept because
+// they may belong to branches that have not been loaded yet.
+export const migrateNameSelections = (entries: string[], nodes: TreeNodeType[]): SelectionMigration => {
+  const index = indexNodesByKey(nodes);
+  const keysByName = new Map<string, string[]>();
+  index.forEach((node, key) => {
+    const name = getNodeName(node);
+    keysByName.set(name, [...(keysByName.get(name) ?? []), key]);
+  });
+
+  const keys: string[] = [];
+  const migrated: SelectionMigration['migrated'] = [];
+  const add = (key: string) => {
+    if (!keys.includes(key)) keys.push(key);
+  };
+
+  entries.forEach((entry) => {
+    const namedKeys = keysByName.get(entry);
+    if (index.has(entry) || !namedKeys) {
+      add(entry);
+    } else {
+      migrated.push({ name: entry, keys: namedKeys });
+      namedKeys.forEach(add);
+    }
+  });
+
+  return { keys, migrated };
+};
+
+// Resolves an event payload that may carry a node key (itemId) or a legacy display name
+export const resolveEventKeys = (
+  detail: { itemId?: string | number; itemName?: string; [legacyNameField: string]: unknown },
+  legacyNameField: string,
+  nodes: TreeNodeType[]
+): string[] => {
+  if (detail.itemId !== undefined && detail.itemId !== null) {
+    return [String(detail.itemId)];
+  }
+  const name = detail.itemName ?? detail[legacyNameField];
+  if (typeof name !== 'string') {
+    return [];
+  }
+  const matches: string[] = [];
+  indexNodesByKey(nodes).forEach((node, key) => {
+    if (getNodeName(node) === name) matches.push(key);
+  });
+  return matches;
+};
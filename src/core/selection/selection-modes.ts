@@ -0,0 +1,70 @@
+import { TreeNodeType, getCanSelectSubItems, getNodeChildren } from '../utils/tree-node-utils';
+import { canStoreSelection } from './selection-constraints';
+
+// How a checkbox click propagates through the tree:
+//  - independent: only the clicked node
+//  - cascade: the clicked node and its loaded descendants, stopping below nodes that
+//    do not allow sub-item selection (canSelectsubcategories / canSelectSubGeographies)
+//  - leaf-only: the lowest-level descendants; branch nodes are never stored themselves
+// Locked nodes (see selection-constraints) are skipped in every mode.
+export type SelectionMode = 'independent' | 'cascade' | 'leaf-only';
+
+export const SELECTION_MODE_LABELS: Record<SelectionMode, string> = {
+  independent: 'Each item individually',
+  cascade: 'Items with all sub-items',
+  'leaf-only': 'Lowest-level items only',
+};
+
+const getLoadedChildren = (node: TreeNodeType): TreeNodeType[] => {
+  const children = getNodeChildren(node);
+  return Array.isArray(children) ? children : [];
+};
+
+// The node plus, where it allows sub-item selection, its loaded descendants
+const collectSubtree = (node: TreeNodeType, result: TreeNodeType[] = []): TreeNodeType[] => {
+  result.push(node);
+  if (getCanSelectSubItems(node)) {
+    getLoadedChildren(node).forEach((child) => collectSubtree(child, result));
+  }
+  return result;
+};
+
+// Lowest-level descendants. Branches whose children are not loaded contribute nothing.
+const collectLeaves = (node: TreeNodeType, result: TreeNodeType[] = []): TreeNodeType[] => {
+  const children = getLoadedChildren(node);
+  if (node.isLowestLevel || (children.length === 0 && !node.hasChildren)) {
+    result.push(node);
+  } else {
+    children.forEach((child) => collectLeaves(child, result));
+  }
+  return result;
+};
+
+// Nodes whose keys a click on `node` adds or removes under the given mode.
+// Locked nodes are never included, so bulk actions skip them.
+export const getSelectionTargets = (node: TreeNodeType, mode: SelectionMode): TreeNodeType[] => {
+  let targets: TreeNodeType[];
+  switch (mode) {
+    case 'cascade':
+      targets = collectSubtree(node);
+      break;
+    case 'leaf-only':
+      targets = collectLeaves(node);
+      break;
+    default:
+      targets = [node];
+  }
+  return targets.filter((target) => canStoreSelection(target, mode));
+};
+
+// Every node a bulk action may store under the given mode, e.g. for Select All
+export const getSelectableNodes = (nodes: TreeNodeType[], mode: SelectionMode): TreeNodeType[] => {
+  const collectAll = (node: TreeNodeType, result: TreeNodeType[] = []): TreeNodeType[] => {
+    result.push(node);
+    getLoadedChildren(node).forEach((child) => collectAll(child, result));
+    return result;
+  };
+  return nodes
+    .flatMap((node) => (mode === 'leaf-only' ? collectLeaves(node) : collectAll(node)))
+    .filter((node) => canStoreSelection(node, mode));
+};
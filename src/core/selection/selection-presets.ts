@@ -0,0 +1,53 @@
+import { HierarchyDataProvider } from '../../models/hierarchy-data-provider';
+import { TreeNodeType, indexNodesByKey } from '../utils/tree-node-utils';
+import { SelectionRule, formatSelectionRule, isExclusionRule, parseSelectionToken } from './selection-rules';
+
+export interface SelectionReconciliation {
+  // Tokens whose node still exists
+  tokens: string[];
+  // Tokens dropped because their node is gone from the hierarchy
+  missing: string[];
+}
+
+// Checks saved tokens against the current hierarchy. Keys that are not loaded are looked up
+// through the provider; if the lookup fails the token is kept rather than silently lost.
+export const reconcileSelection = async <T extends TreeNodeType>(
+  tokens: string[],
+  nodes: T[],
+  provider: HierarchyDataProvider<T>
+): Promise<SelectionReconciliation> => {
+  const index = indexNodesByKey(nodes);
+  const exists = await Promise.all(
+    tokens.map(async (token) => {
+      const { key } = parseSelectionToken(token);
+      if (index.has(key)) return true;
+      try {
+        return (await provider.getNode(key)) !== null;
+      } catch {
+        return true;
+      }
+    })
+  );
+  return {
+    tokens: tokens.filter((_, position) => exists[position]),
+    missing: tokens.filter((_, position) => !exists[position]),
+  };
+};
+
+// Adds the incoming selection to the current one. Merging only adds: incoming exclusions are
+// ignored and current exclusions of the incoming nodes are lifted.
+export const mergeSelections = (current: string[], incoming: string[]): string[] => {
+  const additions = incoming.map(parseSelectionToken).filter((rule) => !isExclusionRule(rule));
+  const lifted = new Set(
+    additions.flatMap(({ kind, key }): SelectionRule[] =>
+      kind === 'subtree'
+        ? [{ kind: 'not-node', key }, { kind: 'not-subtree', key }]
+        : [{ kind: 'not-node', key }]
+    ).map(formatSelectionRule)
+  );
+  const merged = current.filter((token) => !lifted.has(token));
+  additions.map(formatSelectionRule).forEach((token) => {
+    if (!merged.includes(token)) merged.push(token);
+  });
+  return merged;
+};
@@ -0,0 +1,31 @@
+import { GeographyRow, buildGeographyTree } from '../utils/tree-builder';
+import { rollUpAncestors } from './selection-rollup';
+
+const row = (geographyID: number, geographyName: string, parentGeographyID: number | null): GeographyRow => ({
+  geographyID,
+  geographyName,
+  parentGeographyID,
+  isEnabled: true,
+  canSelectSubGeographies: true,
+  level1Group: 'Europe',
+  level2Group: null,
+});
+
+const { roots } = buildGeographyTree([
+  row(1, 'Europe', null),
+  row(10, 'Western Europe', 1),
+  row(101, 'Portugal', 10),
+  row(102, 'Spain', 10),
+  row(20, 'Eastern Europe', 1),
+  row(201, 'Poland', 20),
+]);
+
+test('parents follow their children', () => {
+  expect(rollUpAncestors(roots, ['101', '102'], ['102'])).toEqual(['101', '102', '10']);
+  expect(rollUpAncestors(roots, ['10', '101'], ['102'])).toEqual(['101']);
+});
+
+test('nodes changed directly keep the state they were given', () => {
+  expect(rollUpAncestors(roots, ['10', '101'], ['10', '101'])).toEqual(['10', '101']);
+  expect(rollUpAncestors(roots, ['101', '102'], ['10', '101', '102'])).toEqual(['101', '102']);
+});
@@ -0,0 +1,105 @@
+import { TreeNodeType, getNodeChildren, getNodeKey, indexParentsByKey } from '../utils/tree-node-utils';
+import { getLockReason } from './selection-constraints';
+import { SelectionMode } from './selection-modes';
+import { createSelectionEvaluator, setNodesSelected } from './selection-rules';
+
+export type CheckState = 'checked' | 'unchecked' | 'indeterminate';
+
+// Checkbox state per node. A node that is not selected itself but has selected
+// descendants is indeterminate, so partially selected branches stand out. In
+// leaf-only mode branch nodes are never stored, so their state comes from their
+// unlocked leaves.
+export const computeCheckStates = (
+  nodes: TreeNodeType[],
+  isSelected: (key: string) => boolean,
+  mode: SelectionMode = 'independent'
+): Record<string, CheckState> => {
+  const states: Record<string, CheckState> = {};
+
+  // Returns whether any / every selectable node in the subtree is selected.
+  // Subtrees without a selectable node count as fully selected so they do not hold their parent back.
+  const visit = (node: TreeNodeType): { any: boolean; all: boolean; selectable: boolean } => {
+    const key = getNodeKey(node);
+    const children = getNodeChildren(node);
+    const childResults = Array.isArray(children) ? children.map(visit) : [];
+    const anyChild = childResults.some((result) => result.any);
+    const allChildren = childResults.every((result) => result.all);
+    const selectableChild = childResults.some((result) => result.selectable);
+
+    if (mode === 'leaf-only' && childResults.length > 0) {
+      states[key] = selectableChild && allChildren ? 'checked' : anyChild ? 'indeterminate' : 'unchecked';
+      return { any: anyChild, all: allChildren, selectable: selectableChild };
+    }
+
+    const locked = getLockReason(node) !== null;
+    const selected = isSelected(key);
+    states[key] = selected ? 'checked' : anyChild ? 'indeterminate' : 'unchecked';
+    return {
+      any: selected || anyChild,
+      all: (selected || locked) && allChildren,
+      selectable: !locked || selectableChild,
+    };
+  };
+
+  nodes.forEach(visit);
+  return states;
+};
+
+// Re-evaluates the ancestors of the changed nodes, nearest first: a parent is selected
+// exactly when all of its unlocked loaded children are. Nodes the user toggled directly are
+// left alone, and locked parents are never added. Works on selection tokens (see selection-rules).
+export const rollUpAncestors = (
+  nodes: TreeNodeType[],
+  selectedKeys: string[],
+  changedKeys: string[]
+): string[] => {
+  const parents = indexParentsByKey(nodes);
+  const isSelected = createSelectionEvaluator(selectedKeys, nodes);
+  const rolledUp = new Map<string, boolean>();
+  const check = (key: string) => rolledUp.get(key) ?? isSelected(key);
+
+  // Deeper ancestors first, so a grandparent sees its children's new state
+  const depths = new Map<string, number>();
+  const ancestors = new Map<string, TreeNodeType>();
+  changedKeys.forEach((changedKey) => {
+    const chain: TreeNodeType[] = [];
+    let parent = parents.get(changedKey);
+    while (parent) {
+      chain.push(parent);
+      parent = parents.get(getNodeKey(parent));
+    }
+    chain.forEach((ancestor, index) => {
+      const ancestorKey = getNodeKey(ancestor);
+      ancestors.set(ancestorKey, ancestor);
+      depths.set(ancestorKey, chain.length - index);
+    });
+  });
+
+  // A changed node can also be an ancestor of another one (e.g. a parent and its children
+  // ticked together); the user's choice for it stands
+  const changed = new Set(changedKeys);
+  Array.from(ancestors.keys())
+    .filter((parentKey) => !changed.has(parentKey))
+    .sort((a, b) => (depths.get(b) ?? 0) - (depths.get(a) ?? 0))
+    .forEach((parentKey) => {
+      const parent = ancestors.get(parentKey) as TreeNodeType;
+      const children = getNodeChildren(parent);
+      const selectableChildren = Array.isArray(children)
+        ? children.filter((child) => getLockReason(child) === null)
+        : [];
+      if (selectableChildren.length > 0) {
+        const allChildrenSelected = selectableChildren.every((child) => check(getNodeKey(child)));
+        rolledUp.set(parentKey, allChildrenSelected && getLockReason(parent) === null);
+      }
+    });
+
+  let result = selectedKeys;
+  const updates = Array.from(rolledUp.entries()).filter(([key, selected]) => isSelected(key) !== selected);
+  [true, false].forEach((selected) => {
+    const keys = updates.filter(([, value]) => value === selected).map(([key]) => key);
+    if (keys.length > 0) {
+      result = setNodesSelected(result, keys, selected, nodes);
+    }
+  });
+  return result;
+};
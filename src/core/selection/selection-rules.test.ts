@@ -0,0 +1,72 @@
+import { GeographyRow, buildGeographyTree } from '../utils/tree-builder';
+import { replaceNodeChildren } from '../utils/tree-node-utils';
+import {
+  compactSelection,
+  createSelectionEvaluator,
+  expandSelection,
+  pruneSelectionRules,
+  setNodesSelected,
+  setSubtreeSelected,
+} from './selection-rules';
+
+const row = (geographyID: number, geographyName: string, parentGeographyID: number | null): GeographyRow => ({
+  geographyID,
+  geographyName,
+  parentGeographyID,
+  isEnabled: true,
+  canSelectSubGeographies: true,
+  level1Group: 'Europe',
+  level2Group: null,
+});
+
+const { roots } = buildGeographyTree([
+  row(1, 'Europe', null),
+  row(10, 'Western Europe', 1),
+  row(101, 'Portugal', 10),
+  row(102, 'Spain', 10),
+  row(20, 'Eastern Europe', 1),
+  row(201, 'Poland', 20),
+]);
+
+test('the nearest subtree rule wins', () => {
+  const isSelected = createSelectionEvaluator(['+1', '-10', '102'], roots);
+
+  expect(isSelected('20')).toBe(true);
+  expect(isSelected('201')).toBe(true);
+  expect(isSelected('10')).toBe(false);
+  expect(isSelected('101')).toBe(false);
+  expect(isSelected('102')).toBe(true);
+});
+
+test('subtree changes collapse into a single rule', () => {
+  const selected = setSubtreeSelected(['101', '!102'], '10', true, roots);
+  expect(selected).toEqual(['+10']);
+  expect(setSubtreeSelected(selected, '1', true, roots)).toEqual(['+1']);
+  expect(setSubtreeSelected(['+1'], '10', false, roots)).toEqual(['+1', '-10']);
+});
+
+test('node changes only add tokens where the rules disagree', () => {
+  expect(setNodesSelected(['+10'], ['101'], true, roots)).toEqual(['+10']);
+  expect(setNodesSelected(['+10'], ['101'], false, roots)).toEqual(['+10', '!101']);
+  expect(setNodesSelected(['+10', '!101'], ['101'], true, roots)).toEqual(['+10']);
+});
+
+test('compaction keeps single nodes with unloaded children as they are', () => {
+  const lazyRoots = [{ ...roots[0], geographies: [], hasChildren: true }];
+  expect(compactSelection(['1'], lazyRoots, 'independent')).toEqual(['1']);
+  expect(compactSelection(['1', '10', '101', '102', '20', '201'], roots, 'independent')).toEqual(['+1']);
+});
+
+test('select-all rules cover children that are loaded later', () => {
+  const lazyRoots = [{ ...roots[0], geographies: [], hasChildren: true }];
+  const selected = compactSelection(['1'], lazyRoots, 'independent', { coverUnloaded: true });
+  expect(selected).toEqual(['+1']);
+
+  const loaded = replaceNodeChildren(lazyRoots, '1', roots[0].geographies);
+  expect(expandSelection(selected, loaded, { leavesOnly: true })).toEqual(['101', '102', '201']);
+});
+
+test('prunes exclusions that no longer exclude anything', () => {
+  expect(pruneSelectionRules(['-10', '!201', '102'], roots)).toEqual(['102']);
+  expect(pruneSelectionRules(['+1', '+10', '-20'], roots)).toEqual(['+1', '-20']);
+});
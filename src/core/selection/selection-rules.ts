@@ -0,0 +1,272 @@
+import {
+  TreeNodeType,
+  getCanSelectSubItems,
+  getNodeChildren,
+  getNodeKey,
+  hasUnloadedChildren,
+  indexNodesByKey,
+  indexParentsByKey,
+} from '../utils/tree-node-utils';
+import { canStoreSelection, getLockReason } from './selection-constraints';
+import { SelectionMode } from './selection-modes';
+
+// A selection is a list of tokens that is evaluated per node:
+//   key   the node itself
+//   !key  not the node itself, overriding a subtree rule above it
+//   +key  the node and everything below it, including children loaded or added later
+//   -key  nothing at or below the node, overriding a subtree rule above it
+// The nearest subtree rule wins, so ['+europe', '-spain'] reads "all of Europe except Spain".
+// Subtree rules do not reach below nodes that disallow sub-item selection, and locked
+// nodes are never selected. Plain keys are valid tokens, so key lists keep working.
+export type SelectionRuleKind = 'node' | 'not-node' | 'subtree' | 'not-subtree';
+
+export interface SelectionRule {
+  kind: SelectionRuleKind;
+  key: string;
+}
+
+const RULE_PREFIXES: Record<SelectionRuleKind, string> = {
+  node: '',
+  'not-node': '!',
+  subtree: '+',
+  'not-subtree': '-',
+};
+
+export const parseSelectionToken = (token: string): SelectionRule => {
+  switch (token.charAt(0)) {
+    case '+':
+      return { kind: 'subtree', key: token.slice(1) };
+    case '-':
+      return { kind: 'not-subtree', key: token.slice(1) };
+    case '!':
+      return { kind: 'not-node', key: token.slice(1) };
+    default:
+      return { kind: 'node', key: token };
+  }
+};
+
+export const formatSelectionRule = ({ kind, key }: SelectionRule): string => `${RULE_PREFIXES[kind]}${key}`;
+
+// Rules that take something away rather than add it
+export const isExclusionRule = ({ kind }: SelectionRule) => kind === 'not-node' || kind === 'not-subtree';
+
+interface RuleIndex {
+  node: Map<string, boolean>;
+  subtree: Map<string, boolean>;
+}
+
+const indexRules = (tokens: string[]): RuleIndex => {
+  const rules: RuleIndex = { node: new Map(), subtree: new Map() };
+  tokens.map(parseSelectionToken).forEach(({ kind, key }) => {
+    if (kind === 'node' || kind === 'not-node') {
+      rules.node.set(key, kind === 'node');
+    } else {
+      rules.subtree.set(key, kind === 'subtree');
+    }
+  });
+  return rules;
+};
+
+// Verdict of the nearest subtree rule at or above the node, or undefined when none applies
+const findSubtreeRule = (
+  key: string,
+  rules: RuleIndex,
+  parents: Map<string, TreeNodeType>,
+  includeSelf = true
+): boolean | undefined => {
+  if (includeSelf && rules.subtree.has(key)) {
+    return rules.subtree.get(key);
+  }
+  let parent = parents.get(key);
+  while (parent) {
+    if (!getCanSelectSubItems(parent)) {
+      return undefined;
+    }
+    const parentKey = getNodeKey(parent);
+    if (rules.subtree.has(parentKey)) {
+      return rules.subtree.get(parentKey);
+    }
+    parent = parents.get(parentKey);
+  }
+  return undefined;
+};
+
+// The node plus the loaded descendants a subtree rule on it reaches
+const collectCoveredNodes = (node: TreeNodeType, result: TreeNodeType[] = []): TreeNodeType[] => {
+  result.push(node);
+  const children = getNodeChildren(node);
+  if (getCanSelectSubItems(node) && Array.isArray(children)) {
+    children.forEach((child) => collectCoveredNodes(child, result));
+  }
+  return result;
+};
+
+// Returns a key -> selected lookup for the loaded hierarchy
+export const createSelectionEvaluator = (tokens: string[], nodes: TreeNodeType[]) => {
+  const rules = indexRules(tokens);
+  const index = indexNodesByKey(nodes);
+  const parents = indexParentsByKey(nodes);
+
+  return (key: string): boolean => {
+    const node = index.get(key);
+    if (node && getLockReason(node) !== null) {
+      return false;
+    }
+    return rules.node.get(key) ?? findSubtreeRule(key, rules, parents) ?? false;
+  };
+};
+
+// Selects or deselects individual nodes; what lies below them is left as it is
+export const setNodesSelected = (
+  tokens: string[],
+  keys: string[],
+  selected: boolean,
+  nodes: TreeNodeType[]
+): string[] => {
+  const rules = indexRules(tokens);
+  const parents = indexParentsByKey(nodes);
+
+  // A node token is only needed where the subtree rules say otherwise
+  const wanted = new Map<string, string | null>();
+  keys.forEach((key) => {
+    const inherited = findSubtreeRule(key, rules, parents) ?? false;
+    wanted.set(key, inherited === selected ? null : formatSelectionRule({ kind: selected ? 'node' : 'not-node', key }));
+  });
+
+  const kept = new Set<string>();
+  const next = tokens.filter((token) => {
+    const { kind, key } = parseSelectionToken(token);
+    if ((kind !== 'node' && kind !== 'not-node') || !wanted.has(key)) {
+      return true;
+    }
+    if (wanted.get(key) === token && !kept.has(token)) {
+      kept.add(token);
+      return true;
+    }
+    return false;
+  });
+  wanted.forEach((token) => {
+    if (token !== null && !kept.has(token)) {
+      next.push(token);
+      kept.add(token);
+    }
+  });
+
+  const unchanged = next.length === tokens.length && next.every((token, index) => token === tokens[index]);
+  return unchanged ? tokens : next;
+};
+
+// Selects or deselects a node together with everything below it. Rules inside the
+// subtree are replaced by a single rule on the node, or none if the parent already agrees.
+export const setSubtreeSelected = (
+  tokens: string[],
+  key: string,
+  selected: boolean,
+  nodes: TreeNodeType[]
+): string[] => {
+  const node = indexNodesByKey(nodes).get(key);
+  if (node && !getCanSelectSubItems(node)) {
+    return setNodesSelected(tokens, [key], selected, nodes);
+  }
+  const parents = indexParentsByKey(nodes);
+  const covered = new Set(node ? collectCoveredNodes(node).map(getNodeKey) : [key]);
+  const next = tokens.filter((token) => !covered.has(parseSelectionToken(token).key));
+
+  const inherited = findSubtreeRule(key, indexRules(next), parents, false) ?? false;
+  if (inherited !== selected) {
+    next.push(formatSelectionRule({ kind: selected ? 'subtree' : 'not-subtree', key }));
+  }
+  return next.length === tokens.length && next.every((token, index) => token === tokens[index]) ? tokens : next;
+};
+
+// Drops tokens that do not change the outcome, e.g. an exclusion whose including rule was removed.
+// Tokens for nodes that are not loaded are kept.
+export const pruneSelectionRules = (tokens: string[], nodes: TreeNodeType[]): string[] => {
+  const rules = indexRules(tokens);
+  const index = indexNodesByKey(nodes);
+  const parents = indexParentsByKey(nodes);
+  const seen = new Set<string>();
+
+  const next = tokens.filter((token) => {
+    if (seen.has(token)) return false;
+    seen.add(token);
+    const { kind, key } = parseSelectionToken(token);
+    if (!index.has(key)) return true;
+    const inherited = kind === 'node' || kind === 'not-node'
+      ? findSubtreeRule(key, rules, parents) ?? false
+      : findSubtreeRule(key, rules, parents, false) ?? false;
+    return inherited !== (kind === 'node' || kind === 'subtree');
+  });
+  return next.length === tokens.length ? tokens : next;
+};
+
+// Explicit keys of the loaded nodes the tokens select, optionally only lowest-level ones.
+// Plain keys of nodes that are not loaded are passed through.
+export const expandSelection = (
+  tokens: string[],
+  nodes: TreeNodeType[],
+  { leavesOnly = false }: { leavesOnly?: boolean } = {}
+): string[] => {
+  const isSelected = createSelectionEvaluator(tokens, nodes);
+  const index = indexNodesByKey(nodes);
+  const keys: string[] = [];
+  index.forEach((node, key) => {
+    if (isSelected(key) && (!leavesOnly || node.isLowestLevel)) {
+      keys.push(key);
+    }
+  });
+  tokens.map(parseSelectionToken).forEach(({ kind, key }) => {
+    if (kind === 'node' && !index.has(key) && !keys.includes(key)) {
+      keys.push(key);
+    }
+  });
+  return keys;
+};
+
+// Turns an explicit key list into rules: a subtree whose storable nodes are all selected
+// becomes one subtree rule. Such a rule would also select children that are not loaded yet,
+// so subtrees with unloaded children are compacted only with `coverUnloaded`, i.e. when
+// everything is being selected (Select All).
+export const compactSelection = (
+  keys: string[],
+  nodes: TreeNodeType[],
+  mode: SelectionMode,
+  { coverUnloaded = false }: { coverUnloaded?: boolean } = {}
+): string[] => {
+  const selected = new Set(keys);
+  const index = indexNodesByKey(nodes);
+  const tokens: string[] = [];
+
+  const visit = (node: TreeNodeType) => {
+    const key = getNodeKey(node);
+    const covered = collectCoveredNodes(node);
+    const storable = covered.filter((item) => canStoreSelection(item, mode));
+    const allSelected = storable.length > 0 && storable.every((item) => selected.has(getNodeKey(item)));
+    const isComplete = coverUnloaded || !covered.some(hasUnloadedChildren);
+
+    if (node.hasChildren && getCanSelectSubItems(node) && allSelected && isComplete && getLockReason(node) === null) {
+      tokens.push(formatSelectionRule({ kind: 'subtree', key }));
+      // Below nodes that stop the rule, selections still need their own tokens
+      covered
+        .filter((item) => item !== node && !getCanSelectSubItems(item))
+        .forEach((item) => {
+          const children = getNodeChildren(item);
+          if (Array.isArray(children)) children.forEach(visit);
+        });
+      return;
+    }
+    if (selected.has(key)) {
+      tokens.push(key);
+    }
+    const children = getNodeChildren(node);
+    if (Array.isArray(children)) {
+      children.forEach(visit);
+    }
+  };
+
+  nodes.forEach(visit);
+  keys.forEach((key) => {
+    if (!index.has(key) && !tokens.includes(key)) tokens.push(key);
+  });
+  return tokens;
+};
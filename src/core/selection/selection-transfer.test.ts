@@ -0,0 +1,127 @@
+import { GeographyNode } from '../../models/geography-tree';
+import { HierarchyDataProvider } from '../../models/hierarchy-data-provider';
+import { GeographyRow, buildGeographyTree } from '../utils/tree-builder';
+import { findNodeByKey, withNodeChildren } from '../utils/tree-node-utils';
+import {
+  ImportedSelectionRow,
+  SelectionFileRow,
+  buildExportRows,
+  collectImportTokens,
+  matchImportRows,
+  parseSelectionFile,
+  toCsv,
+} from './selection-transfer';
+
+const row = (geographyID: number, geographyName: string, parentGeographyID: number | null): GeographyRow => ({
+  geographyID,
+  geographyName,
+  parentGeographyID,
+  isEnabled: true,
+  canSelectSubGeographies: true,
+  level1Group: null,
+  level2Group: null,
+});
+
+const { roots } = buildGeographyTree([
+  row(1, 'Europe', null),
+  row(10, 'Georgia', 1),
+  row(2, 'Americas', null),
+  row(20, 'Georgia', 2),
+]);
+
+const hierarchies = { category: [], geography: roots };
+
+const fileRow = (values: Partial<SelectionFileRow>): SelectionFileRow => ({
+  hierarchy: '',
+  rule: '',
+  id: '',
+  name: '',
+  path: '',
+  level1Group: '',
+  level2Group: '',
+  ...values,
+});
+
+// Rows as read from a file with a header line
+const importRows = (...values: Partial<SelectionFileRow>[]): ImportedSelectionRow[] =>
+  values.map((value, position) => ({ ...fileRow(value), line: position + 2 }));
+
+const summarize = (preview: { status: string; candidates: { key: string }[] }[]) =>
+  preview.map(({ status, candidates }) => [status, candidates.map((candidate) => candidate.key)]);
+
+test('parses quoted CSV fields and header aliases', () => {
+  const rows = parseSelectionFile('Type,Key,Name\r\ngeography,10,"Georgia, ""the country"""\r\n,,\r\n');
+  expect(rows).toEqual([{ ...fileRow({ hierarchy: 'geography', id: '10', name: 'Georgia, "the country"' }), line: 2 }]);
+});
+
+test('reads a list without a header as names in the first column', () => {
+  expect(parseSelectionFile('Europe\nAmericas\n').map((parsed) => parsed.name)).toEqual(['Europe', 'Americas']);
+});
+
+test('numbers rows by the line they start on in the file', () => {
+  const csv = 'id,name\n1,Europe\n\n10,"Georgia\nthe country"\n2,Americas\n';
+  expect(parseSelectionFile(csv).map((parsed) => parsed.line)).toEqual([2, 4, 6]);
+  expect(parseSelectionFile('["Europe", "Americas"]').map((parsed) => parsed.line)).toEqual([1, 2]);
+});
+
+test('escapes cells a spreadsheet would run as formulas and reads them back', () => {
+  const exported = [fileRow({ hierarchy: 'geography', rule: 'node', id: '1', name: '=HYPERLINK("x")', path: '@SUM(A1)' })];
+  const csv = toCsv(exported);
+
+  expect(csv.split('\r\n')[1]).toBe(`geography,node,1,"'=HYPERLINK(""x"")",'@SUM(A1),,`);
+  expect(parseSelectionFile(csv)).toEqual([{ ...exported[0], line: 2 }]);
+});
+
+test('exports one row per token with the node path', () => {
+  expect(buildExportRows('geography', ['+2', '!20'], roots)).toEqual([
+    fileRow({ hierarchy: 'geography', rule: 'subtree', id: '2', name: 'Americas', path: 'Americas' }),
+    fileRow({ hierarchy: 'geography', rule: 'not-node', id: '20', name: 'Georgia', path: 'Americas > Georgia' }),
+  ]);
+});
+
+test('matches by id, then path, then name', async () => {
+  const preview = await matchImportRows(
+    importRows({ id: '10', name: 'Somewhere else' }, { path: 'Americas > Georgia' }, { name: 'Georgia' }, { name: 'Atlantis' }),
+    hierarchies
+  );
+
+  expect(summarize(preview)).toEqual([
+    ['matched', ['10']],
+    ['matched', ['20']],
+    ['ambiguous', ['10', '20']],
+    ['unmatched', []],
+  ]);
+  expect(preview.map((previewRow) => previewRow.line)).toEqual([2, 3, 4, 5]);
+});
+
+test('looks up ids that are not loaded through the provider', async () => {
+  const provider: HierarchyDataProvider<GeographyNode> = {
+    getRoots: async () => roots,
+    getChildren: async () => [],
+    getNode: async (id) => findNodeByKey(roots, id),
+  };
+  const unexpanded = { category: [], geography: roots.map((root) => withNodeChildren(root, [])) };
+  const rows = importRows({ hierarchy: 'geography', id: '20' }, { hierarchy: 'geography', id: '99' });
+
+  expect(summarize(await matchImportRows(rows, unexpanded, { geography: provider }))).toEqual([
+    ['matched', ['20']],
+    ['unmatched', []],
+  ]);
+
+  // Ids that cannot be checked are taken on trust for their own hierarchy
+  const offline = { ...provider, getNode: () => Promise.reject(new Error('offline')) };
+  expect(summarize(await matchImportRows(rows, unexpanded, { geography: offline }))).toEqual([
+    ['matched', ['20']],
+    ['matched', ['99']],
+  ]);
+});
+
+test('collects tokens from matched rows and chosen candidates only', async () => {
+  const preview = await matchImportRows(
+    importRows({ name: 'Europe', rule: 'subtree' }, { name: 'Georgia', rule: 'not-node' }, { name: 'Atlantis' }),
+    hierarchies
+  );
+
+  expect(collectImportTokens(preview)).toEqual({ category: [], geography: ['+1'] });
+  expect(collectImportTokens(preview, { 3: 'geography:10' })).toEqual({ category: [], geography: ['+1', '!10'] });
+});
@@ -0,0 +1,298 @@
+import { HierarchyDataProviders, HierarchyType } from '../../models/hierarchy-data-provider';
+import {
+  TreeNodeType,
+  getNodeName,
+  getNodePath,
+  indexNodesByKey,
+  indexParentsByKey,
+} from '../utils/tree-node-utils';
+import { SelectionRuleKind, formatSelectionRule, parseSelectionToken } from './selection-rules';
+
+// One selection token as written to and read from files
+export interface SelectionFileRow {
+  hierarchy: HierarchyType | '';
+  rule: SelectionRuleKind | '';
+  id: string;
+  name: string;
+  path: string;
+  level1Group: string;
+  level2Group: string;
+}
+
+// A row read back from a file
+export interface ImportedSelectionRow extends SelectionFileRow {
+  // 1-based line the row starts on in a CSV file, item number in a JSON array
+  line: number;
+}
+
+export type HierarchyNodes = Record<HierarchyType, TreeNodeType[]>;
+
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface ImportCandidate {
+  hierarchy: HierarchyType;
+  key: string;
+  path: string;
+}
+
+export interface ImportPreviewRow {
+  // 1-based line or item number in the file
+  line: number;
+  label: string;
+  rule: SelectionRuleKind;
+  status: ImportMatchStatus;
+  // One candidate when matched, several when ambiguous
+  candidates: ImportCandidate[];
+}
+
+const COLUMNS: (keyof SelectionFileRow)[] = ['hierarchy', 'rule', 'id', 'name', 'path', 'level1Group', 'level2Group'];
+const PATH_SEPARATOR = ' > ';
+const HIERARCHY_TYPES: HierarchyType[] = ['category', 'geography'];
+const RULE_KINDS: SelectionRuleKind[] = ['node', 'not-node', 'subtree', 'not-subtree'];
+
+// Spreadsheet headers vary; these spellings map onto the file columns
+const HEADER_ALIASES: Record<string, keyof SelectionFileRow> = {
+  hierarchy: 'hierarchy',
+  type: 'hierarchy',
+  rule: 'rule',
+  id: 'id',
+  key: 'id',
+  name: 'name',
+  path: 'path',
+  level1group: 'level1Group',
+  level2group: 'level2Group',
+};
+
+// One row per token; nodes that are not loaded are written with their id only
+export const buildExportRows = (type: HierarchyType, tokens: string[], nodes: TreeNodeType[]): SelectionFileRow[] => {
+  const index = indexNodesByKey(nodes);
+  const parents = indexParentsByKey(nodes);
+  return tokens.map((token) => {
+    const { kind, key } = parseSelectionToken(token);
+    const node = index.get(key);
+    return {
+      hierarchy: type,
+      rule: kind,
+      id: key,
+      name: node ? getNodeName(node) : '',
+      path: node ? getNodePath(node, parents, PATH_SEPARATOR) : '',
+      level1Group: node?.level1Group ?? '',
+      level2Group: node?.level2Group ?? '',
+    };
+  });
+};
+
+// Spreadsheets run cells starting with these as formulas; such cells are written with a leading
+// apostrophe, which parseSelectionFile strips again
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const FORMULA_ESCAPE = "'";
+
+const escapeCsv = (text: string) => {
+  const value = FORMULA_PREFIX.test(text) ? FORMULA_ESCAPE + text : text;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const unescapeFormula = (cell: string) =>
+  cell.startsWith(FORMULA_ESCAPE) && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+
+export const toCsv = (rows: SelectionFileRow[]): string =>
+  [COLUMNS.join(','), ...rows.map((row) => COLUMNS.map((column) => escapeCsv(row[column])).join(','))].join('\r\n');
+
+export const toJson = (rows: SelectionFileRow[]): string => JSON.stringify(rows, null, 2);
+
+interface CsvRecord {
+  // 1-based line the record starts on
+  line: number;
+  cells: string[];
+}
+
+// RFC 4180 style: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        // A line break inside a quoted field still moves the following records down
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ line: recordLine, cells: record });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, cells: record });
+  }
+  return records.filter(({ cells }) => cells.some((cell) => cell.trim().length > 0));
+};
+
+const emptyRow = (): SelectionFileRow => ({
+  hierarchy: '',
+  rule: '',
+  id: '',
+  name: '',
+  path: '',
+  level1Group: '',
+  level2Group: '',
+});
+
+const normalizeRow = (values: Partial<Record<keyof SelectionFileRow, unknown>>): SelectionFileRow => {
+  const row = emptyRow();
+  COLUMNS.forEach((column) => {
+    const value = values[column];
+    if (typeof value === 'string' || typeof value === 'number') {
+      (row as unknown as Record<string, string>)[column] = String(value).trim();
+    }
+  });
+  row.hierarchy = HIERARCHY_TYPES.includes(row.hierarchy as HierarchyType) ? row.hierarchy : '';
+  row.rule = RULE_KINDS.includes(row.rule as SelectionRuleKind) ? row.rule : '';
+  return row;
+};
+
+const parseCsv = (text: string): ImportedSelectionRow[] => {
+  const records = parseCsvRecords(text).map(({ line, cells }) => ({ line, cells: cells.map(unescapeFormula) }));
+  if (records.length === 0) return [];
+  const header = records[0].cells.map((cell) => HEADER_ALIASES[cell.trim().toLowerCase()]);
+  // Without a recognised header every line is a bare name or id in the first column
+  if (!header.some(Boolean)) {
+    return records.map(({ line, cells }) => ({ ...normalizeRow({ name: cells[0] }), line }));
+  }
+  return records.slice(1).map(({ line, cells }) => {
+    const values: Partial<Record<keyof SelectionFileRow, string>> = {};
+    header.forEach((column, position) => {
+      if (column) values[column] = cells[position];
+    });
+    return { ...normalizeRow(values), line };
+  });
+};
+
+const parseJson = (text: string): ImportedSelectionRow[] => {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array of selection rows');
+  }
+  return parsed.map((item, position) => ({
+    ...(typeof item === 'string' || typeof item === 'number'
+      ? normalizeRow({ name: String(item) })
+      : normalizeRow(typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {})),
+    line: position + 1,
+  }));
+};
+
+// Reads an exported file, or a spreadsheet export with at least a name or id column
+export const parseSelectionFile = (text: string, fileName = ''): ImportedSelectionRow[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+  return isJson ? parseJson(content) : parseCsv(content);
+};
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+const normalizePath = (value: string) => value.split(/\s*[>›]\s*/).map(normalizeText).join(PATH_SEPARATOR);
+
+// Matches rows against the loaded hierarchies: by id first, then by full path, then by name.
+// A row without a hierarchy column is looked up in both. Ids that are not loaded (exports of a
+// partly expanded tree hold such rows) are looked up through the providers; when a lookup fails,
+// the id is taken on trust for rows that name their hierarchy.
+export const matchImportRows = async (
+  rows: ImportedSelectionRow[],
+  hierarchies: HierarchyNodes,
+  providers: Partial<HierarchyDataProviders> = {}
+): Promise<ImportPreviewRow[]> => {
+  const lookups = HIERARCHY_TYPES.map((hierarchy) => {
+    const index = indexNodesByKey(hierarchies[hierarchy]);
+    const parents = indexParentsByKey(hierarchies[hierarchy]);
+    const entries = Array.from(index.entries()).map(([key, node]) => {
+      const path = getNodePath(node, parents, PATH_SEPARATOR);
+      return { hierarchy, key, path, name: normalizeText(getNodeName(node)), normalizedPath: normalizePath(path) };
+    });
+    return { hierarchy, entries };
+  });
+
+  const lookUpUnloaded = async (row: ImportedSelectionRow, hierarchy: HierarchyType): Promise<ImportCandidate[]> => {
+    const provider = providers[hierarchy];
+    if (!provider) return [];
+    try {
+      const node = await provider.getNode(row.id);
+      return node ? [{ hierarchy, key: row.id, path: row.path || getNodeName(node) }] : [];
+    } catch {
+      return row.hierarchy === hierarchy ? [{ hierarchy, key: row.id, path: row.path || row.name || row.id }] : [];
+    }
+  };
+
+  return Promise.all(rows.map(async (row): Promise<ImportPreviewRow> => {
+    const scopes = lookups.filter(({ hierarchy }) => !row.hierarchy || row.hierarchy === hierarchy);
+    const toCandidate = ({ hierarchy, key, path }: ImportCandidate) => ({ hierarchy, key, path });
+
+    let candidates: ImportCandidate[] = [];
+    if (row.id) {
+      candidates = scopes.flatMap(({ entries }) => entries.filter((entry) => entry.key === row.id)).map(toCandidate);
+    }
+    if (candidates.length === 0 && row.id) {
+      const found = await Promise.all(scopes.map(({ hierarchy }) => lookUpUnloaded(row, hierarchy)));
+      candidates = found.flat();
+    }
+    if (candidates.length === 0 && row.path) {
+      const path = normalizePath(row.path);
+      candidates = scopes.flatMap(({ entries }) => entries.filter((entry) => entry.normalizedPath === path)).map(toCandidate);
+    }
+    // Bare first-column values may be ids as well as names
+    if (candidates.length === 0 && row.name) {
+      const name = normalizeText(row.name);
+      candidates = scopes
+        .flatMap(({ entries }) => entries.filter((entry) => entry.name === name || entry.key === row.name))
+        .map(toCandidate);
+    }
+
+    return {
+      line: row.line,
+      label: row.path || row.name || row.id,
+      rule: row.rule || 'node',
+      status: candidates.length === 1 ? 'matched' : candidates.length > 1 ? 'ambiguous' : 'unmatched',
+      candidates,
+    };
+  }));
+};
+
+// Tokens to apply per hierarchy; `choices` picks a candidate for ambiguous rows by line
+export const collectImportTokens = (
+  preview: ImportPreviewRow[],
+  choices: Record<number, string> = {}
+): Record<HierarchyType, string[]> => {
+  const tokens: Record<HierarchyType, string[]> = { category: [], geography: [] };
+  preview.forEach((row) => {
+    const candidate = row.status === 'matched'
+      ? row.candidates[0]
+      : row.candidates.find(({ hierarchy, key }) => `${hierarchy}:${key}` === choices[row.line]);
+    if (!candidate) return;
+    const token = formatSelectionRule({ kind: row.rule, key: candidate.key });
+    if (!tokens[candidate.hierarchy].includes(token)) {
+      tokens[candidate.hierarchy].push(token);
+    }
+  });
+  return tokens;
+};
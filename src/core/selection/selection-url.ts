@@ -0,0 +1,46 @@
+export type WizardStep = 'category' | 'geography';
+
+export interface SelectionUrlState {
+  step: WizardStep;
+  categories: string[];
+  geographies: string[];
+}
+
+const WIZARD_STEPS: WizardStep[] = ['category', 'geography'];
+
+// Tokens are comma separated; commas and percent signs inside a token are escaped
+export const encodeSelectionParam = (tokens: string[]): string =>
+  tokens.map((token) => token.replace(/%/g, '%25').replace(/,/g, '%2C')).join(',');
+
+export const decodeSelectionParam = (value: string | null): string[] => {
+  if (!value) return [];
+  return value
+    .split(',')
+    .filter((token) => token.length > 0)
+    .map((token) => {
+      try {
+        return decodeURIComponent(token);
+      } catch {
+        return token;
+      }
+    });
+};
+
+// The step is the first path segment (as the wizard's flow expects), selections are query parameters
+export const parseSelectionUrl = (pathname: string, search: string): SelectionUrlState => {
+  const segment = pathname.split('/')[1];
+  const params = new URLSearchParams(search);
+  return {
+    step: WIZARD_STEPS.includes(segment as WizardStep) ? (segment as WizardStep) : 'category',
+    categories: decodeSelectionParam(params.get('categories')),
+    geographies: decodeSelectionParam(params.get('geographies')),
+  };
+};
+
+export const buildSelectionUrl = ({ step, categories, geographies }: SelectionUrlState): string => {
+  const params = new URLSearchParams();
+  if (categories.length > 0) params.set('categories', encodeSelectionParam(categories));
+  if (geographies.length > 0) params.set('geographies', encodeSelectionParam(geographies));
+  const query = params.toString();
+  return `/${step}${query ? `?${query}` : ''}`;
+};
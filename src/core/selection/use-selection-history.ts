@@ -0,0 +1,173 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+
+export interface SelectionSnapshot {
+  categories: string[];
+  geographies: string[];
+}
+
+interface SelectionHistory {
+  past: SelectionSnapshot[];
+  present: SelectionSnapshot;
+  future: SelectionSnapshot[];
+  // Step that produced the present entry; later changes of the same step amend it
+  step: number | null;
+}
+
+export interface SelectionHistoryOptions {
+  initial?: Partial<SelectionSnapshot>;
+  // Oldest entries are dropped beyond this many undo steps
+  limit?: number;
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  enableShortcuts?: boolean;
+}
+
+// Input types with their own text undo; checkboxes, radios and buttons have none
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'password', 'number'];
+
+const isTextInput = (target: EventTarget | null) =>
+  (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type)) ||
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+// Groups the selection changes of one user action into undo steps
+export interface SelectionHistoryBatching {
+  // Changes made inside fn, to either hierarchy, undo together
+  batch: (fn: () => void) => void;
+  // Changes made inside fn amend the current entry, e.g. pruning or restoring the URL
+  withoutHistory: (fn: () => void) => void;
+}
+
+const runDirectly = (fn: () => void) => fn();
+const NO_BATCHING: SelectionHistoryBatching = { batch: runDirectly, withoutHistory: runDirectly };
+
+export const SelectionHistoryContext = createContext<SelectionHistoryBatching | null>(null);
+
+// Outside a provider every change is applied as is
+export const useSelectionHistoryBatching = (): SelectionHistoryBatching =>
+  useContext(SelectionHistoryContext) ?? NO_BATCHING;
+
+// Category and geography selections with a shared undo/redo stack. The returned setters
+// are drop-in replacements for useState setters, so every path that mutates selections
+// is recorded without changes on its side; each call is one undo step unless grouped with batch.
+export const useSelectionHistory = ({ initial, limit = 100, enableShortcuts = true }: SelectionHistoryOptions = {}) => {
+  const [history, setHistory] = useState<SelectionHistory>(() => ({
+    past: [],
+    present: { categories: initial?.categories ?? [], geographies: initial?.geographies ?? [] },
+    future: [],
+    step: null,
+  }));
+  const lastStep = useRef(0);
+  // Step of the running batch, if any
+  const batchStep = useRef<number | null>(null);
+  const untrackedDepth = useRef(0);
+
+  const update = useCallback(
+    (field: keyof SelectionSnapshot, action: SetStateAction<string[]>) => {
+      // Decided now, while the batch is running; the updater below may run later
+      const step = untrackedDepth.current > 0 ? null : batchStep.current ?? ++lastStep.current;
+      setHistory((prev) => {
+        const current = prev.present[field];
+        const next = typeof action === 'function' ? action(current) : action;
+        if (next === current) {
+          return prev;
+        }
+        const present = { ...prev.present, [field]: next };
+        if (step === null || step === prev.step) {
+          return { ...prev, present };
+        }
+        return { past: [...prev.past, prev.present].slice(-limit), present, future: [], step };
+      });
+    },
+    [limit]
+  );
+
+  const batch = useCallback((fn: () => void) => {
+    if (batchStep.current !== null) {
+      fn();
+      return;
+    }
+    batchStep.current = ++lastStep.current;
+    try {
+      fn();
+    } finally {
+      batchStep.current = null;
+    }
+  }, []);
+
+  const withoutHistory = useCallback((fn: () => void) => {
+    untrackedDepth.current++;
+    try {
+      fn();
+    } finally {
+      untrackedDepth.current--;
+    }
+  }, []);
+
+  const setSelectedCategories: Dispatch<SetStateAction<string[]>> = useCallback(
+    (action) => update('categories', action),
+    [update]
+  );
+  const setSelectedGeographies: Dispatch<SetStateAction<string[]>> = useCallback(
+    (action) => update('geographies', action),
+    [update]
+  );
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        step: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        step: null,
+      };
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave text fields their own undo
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return useMemo(
+    () => ({
+      selectedCategories: history.present.categories,
+      selectedGeographies: history.present.geographies,
+      setSelectedCategories,
+      setSelectedGeographies,
+      undo,
+      redo,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      batch,
+      withoutHistory,
+    }),
+    [history, setSelectedCategories, setSelectedGeographies, undo, redo, batch, withoutHistory]
+  );
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { SelectionUrlState, buildSelectionUrl, parseSelectionUrl } from './selection-url';
+
+// Keeps the wizard step and selections in the URL so links can be shared and reloads restore
+// the set-up. Step changes add a browser history entry; selection changes replace the current
+// one so back/forward moves between steps rather than single clicks. When the URL changes from
+// outside (back/forward), the parsed state is handed to `apply`. Must be used inside a router.
+export const useSelectionUrlSync = (state: SelectionUrlState, apply: (state: SelectionUrlState) => void) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const current = `${location.pathname}${location.search}`;
+  const target = buildSelectionUrl(state);
+  const lastUrl = useRef(current);
+
+  useEffect(() => {
+    if (current !== lastUrl.current) {
+      lastUrl.current = current;
+      apply(parseSelectionUrl(location.pathname, location.search));
+      return;
+    }
+    if (target !== current) {
+      const urlStep = parseSelectionUrl(location.pathname, location.search).step;
+      lastUrl.current = target;
+      navigate(target, { replace: urlStep === state.step });
+    }
+  }, [current, target, location.pathname, location.search, state.step, apply, navigate]);
+};
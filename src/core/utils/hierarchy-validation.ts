@@ -0,0 +1,188 @@
+import { HierarchyType } from '../../models/hierarchy-data-provider';
+import { DiagnosticSeverity, HierarchyDiagnostic } from '../../models/hierarchy-diagnostic';
+
+interface FieldRule {
+  check: (value: unknown) => boolean;
+  expected: string;
+}
+
+const numberOrNull: FieldRule = {
+  check: (value) => value === null || (typeof value === 'number' && Number.isFinite(value)),
+  expected: 'number or null',
+};
+const stringOrNull: FieldRule = {
+  check: (value) => value === null || typeof value === 'string',
+  expected: 'string or null',
+};
+const optionalStringOrNull: FieldRule = {
+  check: (value) => value === undefined || value === null || typeof value === 'string',
+  expected: 'string, null or absent',
+};
+const boolean: FieldRule = { check: (value) => typeof value === 'boolean', expected: 'boolean' };
+const nonEmptyString: FieldRule = {
+  check: (value) => typeof value === 'string' && value.trim().length > 0,
+  expected: 'non-empty string',
+};
+const array: FieldRule = { check: (value) => Array.isArray(value), expected: 'array' };
+const optionalStringArray: FieldRule = {
+  check: (value) =>
+    value === undefined || value === null || (Array.isArray(value) && value.every((item) => typeof item === 'string')),
+  expected: 'array of strings, null or absent',
+};
+
+interface HierarchySchema {
+  fields: Record<string, FieldRule>;
+  idFields: string[];
+  nameField: string;
+  parentIdField: string;
+  childrenField: string;
+}
+
+// Mirrors the CategoryNode and GeographyNode interfaces
+const schemas: Record<HierarchyType, HierarchySchema> = {
+  category: {
+    fields: {
+      productID: numberOrNull,
+      productName: nonEmptyString,
+      parentProductID: numberOrNull,
+      hasChildren: boolean,
+      categoryID: numberOrNull,
+      isEnabled: boolean,
+      canSelectsubcategories: boolean,
+      level1Group: stringOrNull,
+      level2Group: stringOrNull,
+      isLowestLevel: boolean,
+      parentName: optionalStringOrNull,
+      categories: array,
+      definition: optionalStringOrNull,
+      alternativeNames: optionalStringArray,
+    },
+    idFields: ['productID', 'categoryID'],
+    nameField: 'productName',
+    parentIdField: 'parentProductID',
+    childrenField: 'categories',
+  },
+  geography: {
+    fields: {
+      geographyID: numberOrNull,
+      geographyName: nonEmptyString,
+      parentGeographyID: numberOrNull,
+      hasChildren: boolean,
+      isEnabled: boolean,
+      canSelectSubGeographies: boolean,
+      level1Group: stringOrNull,
+      level2Group: stringOrNull,
+      isLowestLevel: boolean,
+      parentName: optionalStringOrNull,
+      geographies: array,
+      definition: optionalStringOrNull,
+      alternativeNames: optionalStringArray,
+    },
+    idFields: ['geographyID'],
+    nameField: 'geographyName',
+    parentIdField: 'parentGeographyID',
+    childrenField: 'geographies',
+  },
+};
+
+const describeValue = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+// Checks a hierarchy payload against the node model before it reaches the tree
+export const validateHierarchy = (type: HierarchyType, payload: unknown): HierarchyDiagnostic[] => {
+  const schema = schemas[type];
+  const diagnostics: HierarchyDiagnostic[] = [];
+  const report = (severity: DiagnosticSeverity, code: HierarchyDiagnostic['code'], message: string, path: string[]) => {
+    diagnostics.push({ severity, code, message, path });
+  };
+
+  if (!Array.isArray(payload)) {
+    report('error', 'invalid-payload', `Expected an array of ${type} nodes but received ${describeValue(payload)}`, []);
+    return diagnostics;
+  }
+
+  const keyPaths = new Map<string, string[]>();
+  const namePaths = new Map<string, string[][]>();
+
+  const visit = (nodes: unknown[], parent: Record<string, unknown> | null, parentPath: string[]) => {
+    nodes.forEach((candidate, index) => {
+      if (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate)) {
+        report('error', 'invalid-payload', `Item ${index} is ${describeValue(candidate)}, not a ${type} node`, parentPath);
+        return;
+      }
+      const node = candidate as Record<string, unknown>;
+      const name = typeof node[schema.nameField] === 'string' ? (node[schema.nameField] as string) : `#${index}`;
+      const path = [...parentPath, name];
+
+      Object.entries(schema.fields).forEach(([field, { check, expected }]) => {
+        if (!check(node[field])) {
+          report('error', 'invalid-field', `"${field}" should be ${expected} but is ${describeValue(node[field])}`, path);
+        }
+      });
+
+      // Same fallback order as getNodeKey
+      const id = schema.idFields.map((field) => node[field]).find((value) => value !== null && value !== undefined);
+      if (id === undefined) {
+        report('warning', 'missing-id', `No ${schema.idFields.join(' or ')}; the display name is used as its key`, path);
+      }
+      const key = String(id ?? name);
+      const existingPath = keyPaths.get(key);
+      if (existingPath) {
+        report('error', 'duplicate-key', `Key "${key}" is also used by ${existingPath.join(' › ')}`, path);
+      } else {
+        keyPaths.set(key, path);
+      }
+
+      namePaths.set(name, [...(namePaths.get(name) ?? []), path]);
+
+      const parentId = node[schema.parentIdField];
+      if (parent) {
+        const expectedParentId = schema.idFields.map((field) => parent[field]).find((value) => value !== null && value !== undefined);
+        if (expectedParentId !== undefined && parentId !== expectedParentId) {
+          report('warning', 'parent-mismatch', `"${schema.parentIdField}" is ${String(parentId)} but the node is nested under ${String(expectedParentId)}`, path);
+        }
+      } else if (parentId !== null && parentId !== undefined) {
+        report('warning', 'parent-mismatch', `Top-level node has "${schema.parentIdField}" ${String(parentId)}`, path);
+      }
+
+      const children = node[schema.childrenField];
+      if (Array.isArray(children)) {
+        if (children.length > 0 && node.hasChildren === false) {
+          report('warning', 'children-mismatch', `"hasChildren" is false but ${children.length} children are nested`, path);
+        }
+        visit(children, node, path);
+      }
+    });
+  };
+
+  visit(payload, null, []);
+
+  namePaths.forEach((paths, name) => {
+    if (paths.length > 1) {
+      report(
+        'warning',
+        'duplicate-name',
+        `"${name}" appears ${paths.length} times (${paths.map((path) => path.join(' › ')).join('; ')}); name-only lists and legacy name selections cannot tell them apart`,
+        paths[0]
+      );
+    }
+  });
+
+  return diagnostics;
+};
+
+export const hasValidationErrors = (diagnostics: HierarchyDiagnostic[]) =>
+  diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+// Plain-text report suitable for the console or a support ticket
+export const formatDiagnosticsReport = (label: string, diagnostics: HierarchyDiagnostic[]): string => {
+  if (diagnostics.length === 0) {
+    return `${label}: no problems found`;
+  }
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  const lines = diagnostics.map((diagnostic) => {
+    const location = diagnostic.path.length > 0 ? ` at ${diagnostic.path.join(' › ')}` : '';
+    return `  [${diagnostic.severity}] ${diagnostic.message}${location}`;
+  });
+  return [`${label}: ${errors} error(s), ${warnings} warning(s)`, ...lines].join('\n');
+};
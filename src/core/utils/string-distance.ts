@@ -0,0 +1,55 @@
+// Levenshtein edit distance. Stops early and returns maxDistance + 1 once the
+// distance is known to exceed maxDistance, which keeps scans over large hierarchies cheap.
+export const levenshteinDistance = (a: string, b: string, maxDistance = Infinity): number => {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Positions in b of the characters an optimal edit script keeps from a, e.g. for
+// highlighting which letters of "Germany" a query of "germny" actually matched
+export const getAlignedIndices = (a: string, b: string): number[] => {
+  const table = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      table[i][j] = Math.min(table[i - 1][j] + 1, table[i][j - 1] + 1, table[i - 1][j - 1] + cost);
+    }
+  }
+
+  const indices: number[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 && j > 0) {
+    if (a[i - 1] === b[j - 1] && table[i][j] === table[i - 1][j - 1]) {
+      indices.unshift(j - 1);
+      i--;
+      j--;
+    } else if (table[i][j] === table[i - 1][j - 1] + 1) {
+      i--;
+      j--;
+    } else if (table[i][j] === table[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return indices;
+};
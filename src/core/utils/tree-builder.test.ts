@@ -0,0 +1,54 @@
+import { GeographyRow, buildGeographyTree, createFlatTreeParser } from './tree-builder';
+
+const row = (geographyID: number, geographyName: string, parentGeographyID: number | null): GeographyRow => ({
+  geographyID,
+  geographyName,
+  parentGeographyID,
+  isEnabled: true,
+  canSelectSubGeographies: true,
+  level1Group: 'Europe',
+  level2Group: null,
+});
+
+test('assembles nested geographies and fills derived fields', () => {
+  const { roots, issues } = buildGeographyTree([
+    row(101, 'Portugal', 1),
+    row(1, 'Western Europe', null),
+    row(102, 'Spain', 1),
+  ]);
+
+  expect(issues).toEqual({ orphans: [], cycles: [], duplicateIds: [] });
+  expect(roots).toHaveLength(1);
+  expect(roots[0]).toMatchObject({ geographyName: 'Western Europe', hasChildren: true, isLowestLevel: false, parentName: null });
+  expect(roots[0].geographies.map((g) => g.geographyName)).toEqual(['Portugal', 'Spain']);
+  expect(roots[0].geographies[0]).toMatchObject({ parentName: 'Western Europe', hasChildren: false, isLowestLevel: true });
+});
+
+test('reports orphans, cycles and duplicate ids', () => {
+  const { roots, issues } = buildGeographyTree([
+    row(1, 'Western Europe', null),
+    row(1, 'Western Europe (copy)', null),
+    row(200, 'Lost', 99),
+    row(300, 'A', 301),
+    row(301, 'B', 300),
+  ]);
+
+  expect(roots.map((g) => g.geographyName)).toEqual(['Western Europe']);
+  expect(issues.duplicateIds).toEqual(['1']);
+  expect(issues.orphans).toEqual(['200']);
+  expect(issues.cycles).toEqual([['300', '301']]);
+});
+
+test('promotes orphans to roots when asked', () => {
+  const { roots } = buildGeographyTree([row(200, 'Lost', 99)], { promoteOrphans: true });
+  expect(roots.map((g) => g.geographyName)).toEqual(['Lost']);
+});
+
+test('flat parser treats rows under the requested parent as the top level', () => {
+  const onIssues = jest.fn();
+  const parse = createFlatTreeParser('geography', onIssues);
+  const children = parse([row(101, 'Portugal', 1), row(102, 'Spain', 1)], '1');
+
+  expect(children.map((g) => g.geographyName)).toEqual(['Portugal', 'Spain']);
+  expect(onIssues).not.toHaveBeenCalled();
+});
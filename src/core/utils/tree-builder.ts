@@ -0,0 +1,168 @@
+import { CategoryNode } from '../../models/category-tree';
+import { GeographyNode } from '../../models/geography-tree';
+import { HierarchyNodeMap, HierarchyType } from '../../models/hierarchy-data-provider';
+
+// Flat records as the backend returns them: parent pointers instead of nested arrays.
+// Derived fields may be supplied; when absent they are computed from the assembled tree.
+export type CategoryRow = Omit<CategoryNode, 'categories' | 'hasChildren' | 'isLowestLevel' | 'parentName'> &
+  Partial<Pick<CategoryNode, 'hasChildren' | 'isLowestLevel' | 'parentName'>>;
+
+export type GeographyRow = Omit<GeographyNode, 'geographies' | 'hasChildren' | 'isLowestLevel' | 'parentName'> &
+  Partial<Pick<GeographyNode, 'hasChildren' | 'isLowestLevel' | 'parentName'>>;
+
+export interface TreeBuildIssues {
+  // Rows whose parent id does not exist in the payload
+  orphans: string[];
+  // Each entry lists the ids forming one parent-pointer loop
+  cycles: string[][];
+  // Ids that appear on more than one row; the first row wins
+  duplicateIds: string[];
+}
+
+export interface TreeBuildResult<T> {
+  roots: T[];
+  issues: TreeBuildIssues;
+}
+
+export interface TreeBuildOptions {
+  // Attach orphans as roots instead of dropping them
+  promoteOrphans?: boolean;
+  // Parent id of the returned top level, for payloads that hold one branch (e.g. getChildren)
+  rootParentId?: string | null;
+}
+
+interface RowAccessors<R, T> {
+  getId: (row: R) => string;
+  getParentId: (row: R) => string | null;
+  getName: (row: R) => string;
+  createNode: (row: R, children: T[], parentName: string | null) => T;
+}
+
+const buildTree = <R, T>(
+  rows: R[],
+  { getId, getParentId, getName, createNode }: RowAccessors<R, T>,
+  { promoteOrphans = false, rootParentId = null }: TreeBuildOptions
+): TreeBuildResult<T> => {
+  const issues: TreeBuildIssues = { orphans: [], cycles: [], duplicateIds: [] };
+
+  const rowsById = new Map<string, R>();
+  const order: string[] = [];
+  rows.forEach((row) => {
+    const id = getId(row);
+    if (rowsById.has(id)) {
+      if (!issues.duplicateIds.includes(id)) {
+        issues.duplicateIds.push(id);
+      }
+      return;
+    }
+    rowsById.set(id, row);
+    order.push(id);
+  });
+
+  const rootIds: string[] = [];
+  const childIds = new Map<string, string[]>();
+  order.forEach((id) => {
+    const parentId = getParentId(rowsById.get(id) as R);
+    if (parentId === null || parentId === rootParentId) {
+      rootIds.push(id);
+    } else if (!rowsById.has(parentId)) {
+      issues.orphans.push(id);
+      if (promoteOrphans) {
+        rootIds.push(id);
+      }
+    } else {
+      childIds.set(parentId, [...(childIds.get(parentId) ?? []), id]);
+    }
+  });
+
+  // Walk parent pointers from every row; revisiting a row on the current path closes a loop
+  const state = new Map<string, 'visiting' | 'done'>();
+  order.forEach((startId) => {
+    const path: string[] = [];
+    let currentId: string | null = startId;
+    while (currentId !== null && rowsById.has(currentId) && !state.has(currentId)) {
+      state.set(currentId, 'visiting');
+      path.push(currentId);
+      currentId = getParentId(rowsById.get(currentId) as R);
+    }
+    if (currentId !== null && state.get(currentId) === 'visiting') {
+      issues.cycles.push(path.slice(path.indexOf(currentId)));
+    }
+    path.forEach((id) => state.set(id, 'done'));
+  });
+
+  const assemble = (id: string, parentName: string | null): T => {
+    const row = rowsById.get(id) as R;
+    const children = (childIds.get(id) ?? []).map((childId) => assemble(childId, getName(row)));
+    return createNode(row, children, parentName);
+  };
+
+  return {
+    roots: rootIds.map((id) => assemble(id, null)),
+    issues,
+  };
+};
+
+const toId = (value: number | null): string | null => (value === null ? null : String(value));
+
+export const buildCategoryTree = (
+  rows: CategoryRow[],
+  options: TreeBuildOptions = {}
+): TreeBuildResult<CategoryNode> =>
+  buildTree<CategoryRow, CategoryNode>(
+    rows,
+    {
+      getId: (row) => String(row.productID ?? row.categoryID ?? row.productName),
+      getParentId: (row) => toId(row.parentProductID),
+      getName: (row) => row.productName,
+      createNode: (row, categories, parentName) => ({
+        ...row,
+        parentName: row.parentName ?? parentName,
+        hasChildren: categories.length > 0 || !!row.hasChildren,
+        isLowestLevel: row.isLowestLevel ?? (categories.length === 0 && !row.hasChildren),
+        categories,
+      }),
+    },
+    options
+  );
+
+export const buildGeographyTree = (
+  rows: GeographyRow[],
+  options: TreeBuildOptions = {}
+): TreeBuildResult<GeographyNode> =>
+  buildTree<GeographyRow, GeographyNode>(
+    rows,
+    {
+      getId: (row) => String(row.geographyID ?? row.geographyName),
+      getParentId: (row) => toId(row.parentGeographyID),
+      getName: (row) => row.geographyName,
+      createNode: (row, geographies, parentName) => ({
+        ...row,
+        parentName: row.parentName ?? parentName,
+        hasChildren: geographies.length > 0 || !!row.hasChildren,
+        isLowestLevel: row.isLowestLevel ?? (geographies.length === 0 && !row.hasChildren),
+        geographies,
+      }),
+    },
+    options
+  );
+
+const hasIssues = ({ orphans, cycles, duplicateIds }: TreeBuildIssues) =>
+  orphans.length > 0 || cycles.length > 0 || duplicateIds.length > 0;
+
+// Response parser for REST providers whose endpoints return flat rows
+export const createFlatTreeParser = <K extends HierarchyType>(
+  type: K,
+  onIssues?: (issues: TreeBuildIssues) => void,
+  options: TreeBuildOptions = {}
+) => (payload: unknown, parentId: string | null = null): HierarchyNodeMap[K][] => {
+  const rows = Array.isArray(payload) ? payload : [];
+  const buildOptions = { ...options, rootParentId: parentId };
+  const { roots, issues } = type === 'category'
+    ? buildCategoryTree(rows as CategoryRow[], buildOptions)
+    : buildGeographyTree(rows as GeographyRow[], buildOptions);
+  if (hasIssues(issues)) {
+    onIssues?.(issues);
+  }
+  return roots as HierarchyNodeMap[K][];
+};
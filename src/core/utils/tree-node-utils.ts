@@ -0,0 +1,146 @@
+import { CategoryNode } from '../../models/category-tree';
+import { GeographyNode } from '../../models/geography-tree';
+
+// Type to support both CategoryNode and GeographyNode
+export type TreeNodeType = CategoryNode | GeographyNode;
+
+// Type guards
+export const isCategoryNode = (node: TreeNodeType): node is CategoryNode => {
+  return 'productName' in node && 'categories' in node;
+};
+
+export const isGeographyNode = (node: TreeNodeType): node is GeographyNode => {
+  return 'geographyName' in node && 'geographies' in node;
+};
+
+// Generic helper functions
+export const getNodeKey = (node: TreeNodeType): string => {
+  if (isCategoryNode(node)) {
+    return String(node.productID ?? node.categoryID ?? node.productName);
+  } else {
+    return String(node.geographyID ?? node.geographyName);
+  }
+};
+
+export const getNodeName = (node: TreeNodeType): string => {
+  if (isCategoryNode(node)) {
+    return node.productName;
+  } else {
+    return node.geographyName;
+  }
+};
+
+export const getNodeChildren = (node: TreeNodeType): TreeNodeType[] => {
+  if (isCategoryNode(node)) {
+    return node.categories as TreeNodeType[];
+  } else {
+    return node.geographies as TreeNodeType[];
+  }
+};
+
+export const getCanSelectSubItems = (node: TreeNodeType): boolean => {
+  if (isCategoryNode(node)) {
+    return node.canSelectsubcategories;
+  } else {
+    return node.canSelectSubGeographies;
+  }
+};
+
+// Depth-first search for a node by its key
+export const findNodeByKey = <T extends TreeNodeType>(nodes: T[], key: string): T | null => {
+  for (const node of nodes) {
+    if (getNodeKey(node) === key) {
+      return node;
+    }
+    const children = getNodeChildren(node);
+    if (Array.isArray(children)) {
+      const found = findNodeByKey(children as T[], key);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Returns a copy of the node with its child array replaced
+export const withNodeChildren = <T extends TreeNodeType>(node: T, children: TreeNodeType[]): T => {
+  if (isCategoryNode(node)) {
+    return { ...node, categories: children as CategoryNode[], hasChildren: children.length > 0 };
+  }
+  return { ...node, geographies: children as GeographyNode[], hasChildren: children.length > 0 };
+};
+
+// Immutably attaches children to the node with the given key, keeping untouched branches shared
+export const replaceNodeChildren = <T extends TreeNodeType>(
+  nodes: T[],
+  key: string,
+  children: TreeNodeType[]
+): T[] => {
+  let changed = false;
+  const next = nodes.map((node) => {
+    if (getNodeKey(node) === key) {
+      changed = true;
+      return withNodeChildren(node, children);
+    }
+    const nodeChildren = getNodeChildren(node);
+    if (Array.isArray(nodeChildren) && nodeChildren.length > 0) {
+      const replaced = replaceNodeChildren(nodeChildren, key, children);
+      if (replaced !== nodeChildren) {
+        changed = true;
+        return withNodeChildren(node, replaced);
+      }
+    }
+    return node;
+  });
+  return changed ? next : nodes;
+};
+
+// True when the node reports children that have not been fetched yet
+export const hasUnloadedChildren = (node: TreeNodeType): boolean => {
+  const children = getNodeChildren(node);
+  return node.hasChildren && (!Array.isArray(children) || children.length === 0);
+};
+
+// Flat key -> node lookup over every loaded node
+export const indexNodesByKey = <T extends TreeNodeType>(nodes: T[]): Map<string, T> => {
+  const index = new Map<string, T>();
+  const visit = (items: T[]) => {
+    items.forEach((node) => {
+      index.set(getNodeKey(node), node);
+      const children = getNodeChildren(node);
+      if (Array.isArray(children)) {
+        visit(children as T[]);
+      }
+    });
+  };
+  visit(nodes);
+  return index;
+};
+
+// child key -> parent node, for walking up from a node to the roots
+export const indexParentsByKey = <T extends TreeNodeType>(nodes: T[]): Map<string, T> => {
+  const parents = new Map<string, T>();
+  const visit = (items: T[], parent: T | null) => {
+    items.forEach((node) => {
+      if (parent) {
+        parents.set(getNodeKey(node), parent);
+      }
+      const children = getNodeChildren(node);
+      if (Array.isArray(children)) {
+        visit(children as T[], node);
+      }
+    });
+  };
+  visit(nodes, null);
+  return parents;
+};
+
+// Names from the root down to the node, e.g. "Drinks > Hot Drinks > Coffee"
+export const getNodePath = <T extends TreeNodeType>(node: T, parents: Map<string, T>, separator = ' > '): string => {
+  const names = [getNodeName(node)];
+  let parent = parents.get(getNodeKey(node));
+  while (parent) {
+    names.unshift(getNodeName(parent));
+    parent = parents.get(getNodeKey(parent));
+  }
+  return names.join(separator);
+};
@@ -0,0 +1,14 @@
+// Which geographies have data for which categories: category key -> geography keys.
+// Keys may be at any level; an entry covers everything below both nodes.
+export type AvailabilityMatrix = Record<string, string[]>;
+
+export interface AvailabilityDataProvider {
+  getAvailability: () => Promise<AvailabilityMatrix>;
+}
+
+export interface AvailabilityState {
+  // null until loaded, and when no provider is configured and the hierarchies are not the mocks
+  matrix: AvailabilityMatrix | null;
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  error: string | null;
+}
@@ -12,4 +12,6 @@ export interface CategoryNode {
     parentName?: string | null;
     categories: CategoryNode[];
     definition?: string | null;
+    // Other names users search for, e.g. "Fizzy drinks" for "Carbonates"
+    alternativeNames?: string[] | null;
   }
\ No newline at end of file
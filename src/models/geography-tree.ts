@@ -11,6 +11,8 @@ export interface GeographyNode {
   parentName?: string | null;
   geographies: GeographyNode[];
   definition?: string | null;
+  // Other names users search for, e.g. "Holland" for "Netherlands"
+  alternativeNames?: string[] | null;
 }
 
 export {};
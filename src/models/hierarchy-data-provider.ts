@@ -0,0 +1,48 @@
+import { CategoryNode } from './category-tree';
+import { GeographyNode } from './geography-tree';
+import { HierarchyDiagnostic } from './hierarchy-diagnostic';
+
+export type HierarchyType = 'category' | 'geography';
+
+// Maps each hierarchy type to the node model it serves
+export interface HierarchyNodeMap {
+  category: CategoryNode;
+  geography: GeographyNode;
+}
+
+// Search vocabulary of one hierarchy: alias -> canonical node names,
+// e.g. { uk: ['United Kingdom'], holland: ['Netherlands'] }
+export type SynonymDictionary = Record<string, string[]>;
+
+// Source of hierarchy nodes. Ids are node keys (see getNodeKey), so they are
+// always strings regardless of how the backend types them.
+export interface HierarchyDataProvider<T> {
+  getRoots: () => Promise<T[]>;
+  getChildren: (parentId: string) => Promise<T[]>;
+  getNode: (id: string) => Promise<T | null>;
+  // Optional aliases for search; categories and geographies keep separate vocabularies
+  getSynonyms?: () => Promise<SynonymDictionary>;
+}
+
+export type HierarchyDataProviders = {
+  [K in HierarchyType]: HierarchyDataProvider<HierarchyNodeMap[K]>;
+};
+
+export type HierarchyLoadStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+// Load state of one node's children when they are fetched on expand
+export interface ChildLoadState {
+  status: 'loading' | 'ready' | 'error';
+  error: string | null;
+}
+
+export interface HierarchyState<T> {
+  roots: T[];
+  status: HierarchyLoadStatus;
+  error: string | null;
+  childLoads: Record<string, ChildLoadState>;
+  // Validation findings for the currently loaded tree
+  diagnostics: HierarchyDiagnostic[];
+  // Search aliases from the provider; empty when it has none
+  synonyms: SynonymDictionary;
+}
@@ -0,0 +1,16 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface HierarchyDiagnostic {
+  severity: DiagnosticSeverity;
+  code:
+    | 'invalid-payload'
+    | 'invalid-field'
+    | 'missing-id'
+    | 'duplicate-key'
+    | 'duplicate-name'
+    | 'parent-mismatch'
+    | 'children-mismatch';
+  message: string;
+  // Display names from the root down to the offending node
+  path: string[];
+}
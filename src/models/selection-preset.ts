@@ -0,0 +1,17 @@
+// A named category x geography selection the user can restore later.
+// Selections are stored as selection tokens (see selection-rules).
+export interface SelectionPreset {
+  id: string;
+  name: string;
+  categories: string[];
+  geographies: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where presets are kept. Async so hosts can back it with a server instead of the browser.
+export interface SelectionPresetStorage {
+  list: () => Promise<SelectionPreset[]>;
+  save: (preset: SelectionPreset) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}